@@ -0,0 +1,112 @@
+import type { ReactElement } from 'react'
+import { ClipboardCopy, Download, FileCode, FileImage, ImageIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { toast } from '@/hooks/useToast'
+import { copyImageToClipboard, copyToClipboard } from '@/utils/clipboard'
+import { downloadFile } from '@/utils/download'
+import { PNG_EXPORT_SCALES, prepareSvgForExport, svgToPng } from '@/utils/diagramExport'
+
+interface DiagramExportMenuProps {
+  svg: string
+  background: string
+  filename: string
+}
+
+/**
+ * Hover menu for copying and downloading a rendered diagram as SVG or PNG,
+ * on the background of the theme it was rendered with. Place it inside a
+ * `relative group/diagram` container.
+ * @param props - Component props
+ * @param props.svg - The rendered SVG markup
+ * @param props.background - Background color of the theme the diagram was rendered with
+ * @param props.filename - Download name without extension, e.g. `mermaid-diagram`
+ * @returns The export menu
+ */
+export function DiagramExportMenu({
+  svg,
+  background,
+  filename,
+}: DiagramExportMenuProps): ReactElement {
+  const run = async (action: () => Promise<void> | void, success: string): Promise<void> => {
+    try {
+      await action()
+      toast({ description: success })
+    } catch {
+      toast({ description: 'Failed to export diagram', variant: 'destructive' })
+    }
+  }
+
+  const exported = (): string => prepareSvgForExport(svg, background)
+
+  const handleCopySvg = (): Promise<void> =>
+    run(() => copyToClipboard(exported()), 'SVG copied to clipboard')
+
+  const handleCopyImage = (): Promise<void> =>
+    run(() => copyImageToClipboard(svgToPng(exported(), 2)), 'Image copied to clipboard')
+
+  const handleDownloadSvg = (): Promise<void> =>
+    run(() => downloadFile(`${filename}.svg`, exported(), 'image/svg+xml'), 'SVG downloaded')
+
+  const handleDownloadPng = (scale: number): Promise<void> =>
+    run(async () => {
+      const suffix = scale === 1 ? '' : `@${scale}x`
+      const png = await svgToPng(exported(), scale)
+      downloadFile(`${filename}${suffix}.png`, png, 'image/png')
+    }, 'PNG downloaded')
+
+  return (
+    <div
+      className="absolute top-2 right-2 z-10 opacity-0 group-hover/diagram:opacity-100 focus-within:opacity-100 transition-opacity"
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                aria-label="Export Diagram"
+                className="h-8 w-8 bg-muted/80 backdrop-blur hover:bg-muted border border-border"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p className="text-xs">Export Diagram</p>
+          </TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuItem onClick={handleCopySvg}>
+            <ClipboardCopy className="mr-2 h-4 w-4" />
+            Copy SVG
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopyImage}>
+            <ImageIcon className="mr-2 h-4 w-4" />
+            Copy as Image
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleDownloadSvg}>
+            <FileCode className="mr-2 h-4 w-4" />
+            Download SVG
+          </DropdownMenuItem>
+          {PNG_EXPORT_SCALES.map((scale) => (
+            <DropdownMenuItem key={scale} onClick={() => handleDownloadPng(scale)}>
+              <FileImage className="mr-2 h-4 w-4" />
+              Download PNG ({scale}x)
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import type { ReactElement } from 'react'
+
+interface DiagramFallbackProps {
+  code: string
+  /** Fence language, used for the code block's class */
+  language: string
+  /** The render error, if any; its line is relative to the diagram source */
+  error?: { line: number | null; message: string } | null
+}
+
+/**
+ * Shows a diagram's source as a styled code block while it can't be rendered, with the
+ * syntax error underneath. The error line is a `data-diagram-error-line` button that
+ * the preview resolves to the source line.
+ * @param props - Component props
+ * @param props.code - The diagram source code
+ * @param props.language - Fence language, e.g. `mermaid`
+ * @param props.error - The render error, if any
+ * @returns The code block and error message
+ */
+export function DiagramFallback({ code, language, error }: DiagramFallbackProps): ReactElement {
+  return (
+    <>
+      <pre>
+        <code className={`hljs language-${language}`}>{code}</code>
+      </pre>
+      {error && (
+        <p className="-mt-3 text-xs text-destructive">
+          {error.line !== null && (
+            <>
+              <button
+                type="button"
+                data-diagram-error-line={error.line}
+                className="font-medium underline underline-offset-2 cursor-pointer"
+              >
+                Line {error.line}
+              </button>
+              {': '}
+            </>
+          )}
+          {error.message}
+        </p>
+      )}
+    </>
+  )
+}
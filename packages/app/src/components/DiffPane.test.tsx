@@ -0,0 +1,68 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { DiffPane } from './DiffPane'
+import { compressDocumentToHash } from '@/utils/compression'
+
+vi.mock('@monaco-editor/react', () => ({
+  DiffEditor: ({ original, modified }: { original: string; modified: string }) => (
+    <div>
+      <pre data-testid="original">{original}</pre>
+      <pre data-testid="modified">{modified}</pre>
+    </div>
+  ),
+}))
+
+describe('DiffPane', () => {
+  it('compares the current document with pasted text', () => {
+    render(<DiffPane content="# Current" />)
+
+    fireEvent.change(screen.getByLabelText('Text to compare'), { target: { value: '# Pasted' } })
+
+    expect(screen.getByTestId('original')).toHaveTextContent('# Pasted')
+    expect(screen.getByTestId('modified')).toHaveTextContent('# Current')
+  })
+
+  it('decodes a share link', () => {
+    render(<DiffPane content="# Current" />)
+    const hash = compressDocumentToHash({ content: '# Shared draft', name: 'draft.md' })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Share Link' }))
+    fireEvent.change(screen.getByLabelText('Share link to compare'), {
+      target: { value: `https://poemd.dev/shared/draft#${hash}` },
+    })
+
+    expect(screen.getByTestId('original')).toHaveTextContent('# Shared draft')
+  })
+
+  it('reports share links that cannot be decoded', () => {
+    render(<DiffPane content="# Current" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Share Link' }))
+    fireEvent.change(screen.getByLabelText('Share link to compare'), {
+      target: { value: '#not-a-valid-hash' },
+    })
+
+    expect(screen.getByText('Could not decode this share link')).toBeInTheDocument()
+  })
+
+  it('explains that encrypted share links cannot be compared', () => {
+    render(<DiffPane content="# Current" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Share Link' }))
+    fireEvent.change(screen.getByLabelText('Share link to compare'), {
+      target: { value: 'https://poemd.dev/encrypted-document/x#e1:sealed' },
+    })
+
+    expect(screen.getByText(/Encrypted links can't be compared/)).toBeInTheDocument()
+    expect(screen.queryByText('Could not decode this share link')).not.toBeInTheDocument()
+  })
+
+  it('calls onClose from the close button', () => {
+    const onClose = vi.fn()
+    render(<DiffPane content="" onClose={onClose} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close Diff' }))
+
+    expect(onClose).toHaveBeenCalled()
+  })
+})
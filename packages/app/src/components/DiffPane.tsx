@@ -0,0 +1,197 @@
+import { useState, useMemo, type ReactElement } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/utils/classnames'
+import { decompressDocumentFromHash, isEncryptedHash } from '@/utils/compression'
+import { extractHashFromShareLink } from '@/utils/urlShare'
+import type { LibraryDocument } from '@/utils/documentLibrary'
+import type { Snapshot } from '@/utils/snapshots'
+
+type DiffSource = 'paste' | 'link' | 'library' | 'snapshot'
+
+const DIFF_SOURCES: { id: DiffSource; label: string }[] = [
+  { id: 'paste', label: 'Pasted Text' },
+  { id: 'link', label: 'Share Link' },
+  { id: 'library', label: 'Library' },
+  { id: 'snapshot', label: 'Snapshot' },
+]
+
+interface DiffPaneProps {
+  /** The current document, shown on the right-hand (modified) side */
+  content: string
+  theme?: 'light' | 'dark'
+  libraryDocuments?: LibraryDocument[]
+  snapshots?: Snapshot[]
+  /** Show changes inline instead of side by side (used on narrow screens) */
+  inline?: boolean
+  onClose?: () => void
+}
+
+/**
+ * Compares the current document against pasted text, a share link, or a saved copy
+ * using the Monaco diff editor.
+ * @param props - Component props
+ * @returns Diff pane component
+ */
+export function DiffPane({
+  content,
+  theme = 'light',
+  libraryDocuments = [],
+  snapshots = [],
+  inline = false,
+  onClose,
+}: DiffPaneProps): ReactElement {
+  const [source, setSource] = useState<DiffSource>('paste')
+  const [pastedText, setPastedText] = useState('')
+  const [shareLink, setShareLink] = useState('')
+  const [libraryId, setLibraryId] = useState<string>('')
+  const [snapshotId, setSnapshotId] = useState<string>('')
+
+  const { original, error } = useMemo((): { original: string; error: string | null } => {
+    switch (source) {
+      case 'paste':
+        return { original: pastedText, error: null }
+      case 'link': {
+        const hash = extractHashFromShareLink(shareLink)
+        if (!hash) return { original: '', error: null }
+        if (isEncryptedHash(hash)) {
+          return {
+            original: '',
+            error: "Encrypted links can't be compared. Open the link and paste its text instead.",
+          }
+        }
+        const data = decompressDocumentFromHash(hash)
+        return data
+          ? { original: data.content, error: null }
+          : { original: '', error: 'Could not decode this share link' }
+      }
+      case 'library':
+        return {
+          original: libraryDocuments.find((doc) => doc.id === libraryId)?.content ?? '',
+          error: null,
+        }
+      case 'snapshot':
+        return {
+          original: snapshots.find((snapshot) => snapshot.id === snapshotId)?.content ?? '',
+          error: null,
+        }
+    }
+  }, [source, pastedText, shareLink, libraryDocuments, libraryId, snapshots, snapshotId])
+
+  return (
+    <div className="h-full flex flex-col gap-3 overflow-hidden rounded-lg border border-border bg-background p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Compare with</span>
+        <div className="flex gap-1 bg-muted/20 p-1 rounded-md border text-xs">
+          {DIFF_SOURCES.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              className={cn(
+                'py-1 px-2 rounded-sm transition-colors',
+                source === option.id
+                  ? 'bg-background shadow-sm text-foreground font-medium'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+              )}
+              onClick={() => setSource(option.id)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {onClose && (
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={onClose}>
+            <X className="size-4" />
+            Close Diff
+          </Button>
+        )}
+      </div>
+
+      {source === 'paste' && (
+        <Textarea
+          value={pastedText}
+          onChange={(e) => setPastedText(e.target.value)}
+          placeholder="Paste text to compare against the current document..."
+          aria-label="Text to compare"
+          className="h-24 font-mono text-xs"
+        />
+      )}
+
+      {source === 'link' && (
+        <div className="space-y-1">
+          <Input
+            value={shareLink}
+            onChange={(e) => setShareLink(e.target.value)}
+            placeholder="https://poemd.dev/title/snippet#..."
+            aria-label="Share link to compare"
+            autoComplete="off"
+          />
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+      )}
+
+      {source === 'library' && (
+        <Select value={libraryId} onValueChange={setLibraryId}>
+          <SelectTrigger aria-label="Library document to compare">
+            <SelectValue
+              placeholder={
+                libraryDocuments.length ? 'Choose a saved document' : 'No saved documents'
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {libraryDocuments.map((doc) => (
+              <SelectItem key={doc.id} value={doc.id}>
+                {doc.title} ({doc.name})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {source === 'snapshot' && (
+        <Select value={snapshotId} onValueChange={setSnapshotId}>
+          <SelectTrigger aria-label="Snapshot to compare">
+            <SelectValue placeholder={snapshots.length ? 'Choose a snapshot' : 'No snapshots'} />
+          </SelectTrigger>
+          <SelectContent>
+            {snapshots.map((snapshot) => (
+              <SelectItem key={snapshot.id} value={snapshot.id}>
+                {snapshot.label ?? 'Auto snapshot'} ·{' '}
+                {new Date(snapshot.createdAt).toLocaleString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="flex-1 min-h-0 rounded-md border border-border overflow-hidden">
+        <DiffEditor
+          height="100%"
+          language="markdown"
+          original={original}
+          modified={content}
+          theme={theme === 'dark' ? 'vs-dark' : 'light'}
+          options={{
+            readOnly: true,
+            originalEditable: false,
+            renderSideBySide: !inline,
+            minimap: { enabled: false },
+            wordWrap: 'on',
+            scrollBeyondLastLine: false,
+          }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { DocumentLibraryDialog } from './DocumentLibraryDialog'
+import type { LibraryDocument } from '@/utils/documentLibrary'
+
+const documents: LibraryDocument[] = [
+  {
+    id: 'a',
+    name: 'meeting.md',
+    title: 'Meeting Notes',
+    content: '# Meeting Notes',
+    createdAt: 0,
+    updatedAt: 1,
+  },
+  { id: 'b', name: 'plan.md', title: 'Roadmap', content: '# Roadmap', createdAt: 0, updatedAt: 2 },
+]
+
+const renderDialog = (overrides: Partial<Parameters<typeof DocumentLibraryDialog>[0]> = {}) =>
+  render(
+    <DocumentLibraryDialog
+      open={true}
+      onOpenChange={() => {}}
+      documents={documents}
+      onOpenDocument={() => {}}
+      onDuplicateDocument={() => {}}
+      onDeleteDocument={() => {}}
+      {...overrides}
+    />
+  )
+
+describe('DocumentLibraryDialog', () => {
+  it('lists saved documents', () => {
+    renderDialog()
+    expect(screen.getByText('Meeting Notes')).toBeInTheDocument()
+    expect(screen.getByText('Roadmap')).toBeInTheDocument()
+  })
+
+  it('filters documents by title', () => {
+    renderDialog()
+    fireEvent.change(screen.getByLabelText('Search documents'), { target: { value: 'road' } })
+    expect(screen.queryByText('Meeting Notes')).not.toBeInTheDocument()
+    expect(screen.getByText('Roadmap')).toBeInTheDocument()
+  })
+
+  it('shows an empty state when the library is empty', () => {
+    renderDialog({ documents: [] })
+    expect(screen.getByText(/No saved documents yet/)).toBeInTheDocument()
+  })
+
+  it('opens a document and closes the dialog', () => {
+    const onOpenDocument = vi.fn()
+    const onOpenChange = vi.fn()
+    renderDialog({ onOpenDocument, onOpenChange })
+
+    fireEvent.click(screen.getByText('Roadmap'))
+
+    expect(onOpenDocument).toHaveBeenCalledWith(documents[1])
+    expect(onOpenChange).toHaveBeenCalledWith(false)
+  })
+
+  it('duplicates a document', () => {
+    const onDuplicateDocument = vi.fn()
+    renderDialog({ onDuplicateDocument })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicate Roadmap' }))
+
+    expect(onDuplicateDocument).toHaveBeenCalledWith('b')
+  })
+
+  it('requires a second click to delete', () => {
+    const onDeleteDocument = vi.fn()
+    renderDialog({ onDeleteDocument })
+
+    const deleteButton = screen.getByRole('button', { name: 'Delete Roadmap' })
+    fireEvent.click(deleteButton)
+    expect(onDeleteDocument).not.toHaveBeenCalled()
+
+    fireEvent.click(deleteButton)
+    expect(onDeleteDocument).toHaveBeenCalledWith('b')
+  })
+})
@@ -0,0 +1,129 @@
+import { useState, type ReactElement } from 'react'
+import { Copy, FileText, Trash2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/utils/classnames'
+import { searchLibraryDocuments, type LibraryDocument } from '@/utils/documentLibrary'
+
+interface DocumentLibraryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  documents: LibraryDocument[]
+  loading?: boolean
+  activeDocumentId?: string | null
+  onOpenDocument: (document: LibraryDocument) => void
+  onDuplicateDocument: (id: string) => void
+  onDeleteDocument: (id: string) => void
+}
+
+/**
+ * Dialog listing documents saved to the local library, with search by title
+ * @param props - Component props
+ * @returns Document library dialog component
+ */
+export function DocumentLibraryDialog({
+  open,
+  onOpenChange,
+  documents,
+  loading = false,
+  activeDocumentId,
+  onOpenDocument,
+  onDuplicateDocument,
+  onDeleteDocument,
+}: DocumentLibraryDialogProps): ReactElement {
+  const [query, setQuery] = useState('')
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null)
+  const results = searchLibraryDocuments(documents, query)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Document Library</DialogTitle>
+          <DialogDescription>Documents saved in this browser.</DialogDescription>
+        </DialogHeader>
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by title..."
+          autoComplete="off"
+          aria-label="Search documents"
+        />
+        <ScrollArea className="h-80">
+          {results.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {loading
+                ? 'Loading...'
+                : documents.length === 0
+                  ? 'No saved documents yet. Use "Save to Library" to add one.'
+                  : 'No documents match your search.'}
+            </p>
+          ) : (
+            <ul className="space-y-1 pr-4">
+              {results.map((doc) => (
+                <li
+                  key={doc.id}
+                  className={cn(
+                    'group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-accent',
+                    doc.id === activeDocumentId && 'bg-accent/60'
+                  )}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                    onClick={() => {
+                      onOpenDocument(doc)
+                      onOpenChange(false)
+                    }}
+                  >
+                    <FileText className="size-4 shrink-0 text-muted-foreground" />
+                    <span className="min-w-0">
+                      <span className="block truncate text-sm font-medium">{doc.title}</span>
+                      <span className="block truncate text-xs text-muted-foreground">
+                        {doc.name} · {new Date(doc.updatedAt).toLocaleString()}
+                      </span>
+                    </span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => onDuplicateDocument(doc.id)}
+                    aria-label={`Duplicate ${doc.title}`}
+                  >
+                    <Copy className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size={confirmingDeleteId === doc.id ? 'sm' : 'icon-sm'}
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => {
+                      if (confirmingDeleteId === doc.id) {
+                        setConfirmingDeleteId(null)
+                        onDeleteDocument(doc.id)
+                      } else {
+                        setConfirmingDeleteId(doc.id)
+                      }
+                    }}
+                    onBlur={() => setConfirmingDeleteId(null)}
+                    aria-label={`Delete ${doc.title}`}
+                  >
+                    <Trash2 className="size-4" />
+                    {confirmingDeleteId === doc.id && 'Confirm'}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -161,6 +161,32 @@ describe('EditorToolbar', () => {
     expect(props.onClear).toHaveBeenCalledTimes(1)
   }, 10000)
 
+  it('replaces editing controls with a copy action when read-only', async () => {
+    const user = userEvent.setup()
+    const onMakeEditableCopy = vi.fn()
+    renderToolbar({ readOnly: true, onMakeEditableCopy })
+
+    await user.click(screen.getByRole('button', { name: 'Make a copy to edit' }))
+    expect(onMakeEditableCopy).toHaveBeenCalledTimes(1)
+
+    await user.click(screen.getByRole('button', { name: /test\.md/i }))
+    expect(await screen.findByText('Copy Link')).toBeInTheDocument()
+    for (const item of ['New', 'Rename', 'Library', 'Version History', 'Compare', 'Clear']) {
+      expect(screen.queryByText(item)).not.toBeInTheDocument()
+    }
+  })
+
+  it('disables saving an encrypted document to the library', async () => {
+    const user = userEvent.setup()
+    renderToolbar({ encrypted: true })
+
+    await user.click(screen.getByRole('button', { name: /test\.md/i }))
+    expect(await screen.findByRole('menuitem', { name: 'Save to Library' })).toHaveAttribute(
+      'aria-disabled',
+      'true'
+    )
+  })
+
   it('triggers overflow menu actions', async () => {
     const user = userEvent.setup()
     const props = renderToolbar()
@@ -22,8 +22,10 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import { Button } from '@/components/ui/button'
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuSub,
   DropdownMenuSubTrigger,
@@ -64,6 +66,9 @@ import {
   Pencil,
   Download,
   Link2,
+  Eye,
+  CopyPlus,
+  LockKeyhole,
   Trash2,
   Info,
   ChevronDown,
@@ -86,12 +91,34 @@ import {
   Columns,
   Rows,
   SpellCheck,
+  Library,
+  BookmarkPlus,
+  History,
+  GitCompare,
+  ListTree,
+  Puzzle,
 } from 'lucide-react'
 import { ICON_MAP } from '@/components/transformer/constants'
 import { cn } from '@/utils/classnames'
 import type { ReactElement } from 'react'
 import type { TransformationPipeline } from '@/components/transformer/types'
 import type { TableAction } from '@/components/editor'
+import type { HashStats } from '@/hooks/useUrlState'
+import type { MarkdownExtensions } from '@/utils/markdown'
+
+const MARKDOWN_EXTENSION_LABELS: Record<keyof MarkdownExtensions, string> = {
+  footnotes: 'Footnotes',
+  definitionLists: 'Definition Lists',
+  subscript: 'Subscript',
+  superscript: 'Superscript',
+  mark: 'Highlight',
+  abbreviations: 'Abbreviations',
+  rawHtml: 'Inline HTML',
+}
+
+const MARKDOWN_EXTENSION_NAMES = Object.keys(
+  MARKDOWN_EXTENSION_LABELS
+) as (keyof MarkdownExtensions)[]
 
 /**
  * Props for the ToolbarButton component
@@ -247,14 +274,26 @@ function SortablePipelineButton({
 interface EditorToolbarProps {
   documentName: string
   isOverLimit: boolean
+  hashStats?: HashStats | null
   vimModeEnabled: boolean
   theme: string | undefined
   mounted: boolean
   onNew: () => void
   onRename: () => void
+  onSaveToLibrary?: () => void
+  onOpenLibrary?: () => void
+  onOpenHistory?: () => void
+  onOpenDiff?: () => void
   onDownloadMarkdown: () => void
   onDownloadHTML: () => void
   onCopyLink: () => void
+  onCopyEncryptedLink?: () => void
+  onCopyReadOnlyLink?: () => void
+  /** The document was opened from a read-only link; editing controls are hidden */
+  readOnly?: boolean
+  /** The document came from an encrypted link, so it can't be saved to the plaintext library */
+  encrypted?: boolean
+  onMakeEditableCopy?: () => void
   onClear: () => void
   onFormatBold: () => void
   onFormatItalic: () => void
@@ -287,6 +326,10 @@ interface EditorToolbarProps {
   toggleLineNumbers?: () => void
   startEmpty?: boolean
   toggleStartEmpty?: () => void
+  showOutline?: boolean
+  toggleOutline?: () => void
+  markdownExtensions?: MarkdownExtensions
+  toggleMarkdownExtension?: (name: keyof MarkdownExtensions) => void
   documentMenuRef?: RefObject<HTMLButtonElement | null>
   spellCheck?: boolean
   toggleSpellCheck?: () => void
@@ -300,14 +343,24 @@ interface EditorToolbarProps {
 export function EditorToolbar({
   documentName,
   isOverLimit,
+  hashStats,
   vimModeEnabled,
   theme,
   mounted,
   onNew,
   onRename,
+  onSaveToLibrary,
+  onOpenLibrary,
+  onOpenHistory,
+  onOpenDiff,
   onDownloadMarkdown,
   onDownloadHTML,
   onCopyLink,
+  onCopyEncryptedLink,
+  onCopyReadOnlyLink,
+  readOnly = false,
+  encrypted = false,
+  onMakeEditableCopy,
   onClear,
   onFormatBold,
   onFormatItalic,
@@ -339,6 +392,10 @@ export function EditorToolbar({
   toggleLineNumbers,
   startEmpty,
   toggleStartEmpty,
+  showOutline,
+  toggleOutline,
+  markdownExtensions,
+  toggleMarkdownExtension,
   documentMenuRef,
   spellCheck,
   toggleSpellCheck,
@@ -420,14 +477,40 @@ export function EditorToolbar({
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="start" className="w-48">
-            <DropdownMenuItem onClick={onNew}>
-              <FilePlus className="size-4" />
-              New
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={onRename}>
-              <Pencil className="size-4" />
-              Rename
+            {!readOnly && (
+              <>
+                <DropdownMenuItem onClick={onNew}>
+                  <FilePlus className="size-4" />
+                  New
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onRename}>
+                  <Pencil className="size-4" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+              </>
+            )}
+            <DropdownMenuItem onClick={onSaveToLibrary} disabled={encrypted}>
+              <BookmarkPlus className="size-4" />
+              Save to Library
             </DropdownMenuItem>
+            {/* Opening, restoring and comparing all replace or split the read-only view */}
+            {!readOnly && (
+              <>
+                <DropdownMenuItem onClick={onOpenLibrary}>
+                  <Library className="size-4" />
+                  Library
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onOpenHistory}>
+                  <History className="size-4" />
+                  Version History
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onOpenDiff}>
+                  <GitCompare className="size-4" />
+                  Compare
+                </DropdownMenuItem>
+              </>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuSub>
               <DropdownMenuSubTrigger>
@@ -449,26 +532,67 @@ export function EditorToolbar({
               <Link2 className="size-4" />
               Copy Link
             </DropdownMenuItem>
-            <DropdownMenuSeparator />
-            <DropdownMenuItem
-              onSelect={handleClearSelect}
-              className={cn(
-                isConfirmingClear &&
-                  'text-destructive bg-destructive/10 focus:bg-destructive/10 focus:text-destructive'
-              )}
-            >
-              {isConfirmingClear ? (
-                <AlertTriangle className="size-4 animate-pulse" />
-              ) : (
-                <Trash2 className="size-4" />
-              )}
-              {isConfirmingClear ? 'Confirm Clear' : 'Clear'}
-            </DropdownMenuItem>
+            {onCopyEncryptedLink && (
+              <DropdownMenuItem onClick={onCopyEncryptedLink}>
+                <LockKeyhole className="size-4" />
+                Copy Encrypted Link
+              </DropdownMenuItem>
+            )}
+            {onCopyReadOnlyLink && (
+              <DropdownMenuItem onClick={onCopyReadOnlyLink}>
+                <Eye className="size-4" />
+                Copy Read-Only Link
+              </DropdownMenuItem>
+            )}
+            {!readOnly && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onSelect={handleClearSelect}
+                  className={cn(
+                    isConfirmingClear &&
+                      'text-destructive bg-destructive/10 focus:bg-destructive/10 focus:text-destructive'
+                  )}
+                >
+                  {isConfirmingClear ? (
+                    <AlertTriangle className="size-4 animate-pulse" />
+                  ) : (
+                    <Trash2 className="size-4" />
+                  )}
+                  {isConfirmingClear ? 'Confirm Clear' : 'Clear'}
+                </DropdownMenuItem>
+              </>
+            )}
+            {hashStats && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                  Link size: {hashStats.length.toLocaleString()} bytes
+                  {hashStats.legacyLength > hashStats.length &&
+                    ` (saves ${(hashStats.legacyLength - hashStats.length).toLocaleString()} bytes)`}
+                </DropdownMenuLabel>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
 
-      <div className="order-3 md:order-none w-full md:w-auto mt-2 md:mt-0 flex-none overflow-x-auto flex items-center gap-1 bg-muted/50 rounded-lg p-1 scrollbar-hide">
+      {readOnly && (
+        <div className="order-3 md:order-none w-full md:w-auto mt-2 md:mt-0 flex items-center justify-center gap-2">
+          <span className="text-xs text-muted-foreground">Read-only</span>
+          <Button variant="outline" size="sm" onClick={onMakeEditableCopy}>
+            <CopyPlus className="size-4" />
+            Make a copy to edit
+          </Button>
+        </div>
+      )}
+
+      <div
+        className={cn(
+          'order-3 md:order-none w-full md:w-auto mt-2 md:mt-0 flex-none overflow-x-auto flex items-center gap-1 bg-muted/50 rounded-lg p-1 scrollbar-hide',
+          readOnly && 'hidden'
+        )}
+      >
         <ToolbarButton icon={Bold} label="Bold" onClick={onFormatBold} />
         <ToolbarButton icon={Italic} label="Italic" onClick={onFormatItalic} />
         <ToolbarButton icon={Link} label="Link" onClick={onFormatLink} />
@@ -746,6 +870,32 @@ export function EditorToolbar({
               <Hash className="size-4" />
               {showLineNumbers ? 'Hide Line Numbers' : 'Show Line Numbers'}
             </DropdownMenuItem>
+            {toggleOutline && (
+              <DropdownMenuItem onClick={toggleOutline}>
+                <ListTree className="size-4" />
+                {showOutline ? 'Hide Outline' : 'Show Outline'}
+              </DropdownMenuItem>
+            )}
+            {markdownExtensions && toggleMarkdownExtension && (
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Puzzle className="size-4" />
+                  Markdown Extensions
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {MARKDOWN_EXTENSION_NAMES.map((name) => (
+                    <DropdownMenuCheckboxItem
+                      key={name}
+                      checked={markdownExtensions[name]}
+                      onCheckedChange={() => toggleMarkdownExtension(name)}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {MARKDOWN_EXTENSION_LABELS[name]}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            )}
             <DropdownMenuItem onClick={toggleStartEmpty}>
               <File className="size-4" />
               {startEmpty ? 'Start with Default Content' : 'Start with Empty Editor'}
@@ -0,0 +1,51 @@
+import { useState, type ReactElement } from 'react'
+import { ChevronRight } from 'lucide-react'
+import { cn } from '@/utils/classnames'
+import { formatFrontMatterValue, type FrontMatter } from '@/utils/frontMatter'
+
+interface FrontMatterPanelProps {
+  frontMatter: FrontMatter
+}
+
+/**
+ * Collapsible panel listing the document's front matter fields above the preview
+ * @param props - Component props
+ * @returns Front matter panel component
+ */
+export function FrontMatterPanel({ frontMatter }: FrontMatterPanelProps): ReactElement {
+  const [expanded, setExpanded] = useState(false)
+  const entries = Object.entries(frontMatter.data)
+
+  return (
+    <div className="mt-6 mb-4 rounded-md border border-border text-sm">
+      <button
+        type="button"
+        aria-expanded={expanded}
+        onClick={() => setExpanded((value) => !value)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-muted-foreground hover:text-foreground"
+      >
+        <ChevronRight className={cn('size-4 transition-transform', expanded && 'rotate-90')} />
+        <span className="font-medium">Metadata</span>
+        <span className="text-xs uppercase">{frontMatter.format}</span>
+      </button>
+      {expanded && (
+        <div className="border-t border-border px-3 py-2">
+          {entries.length > 0 ? (
+            <div className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+              {entries.map(([key, value]) => (
+                <div key={key} className="contents">
+                  <span className="font-medium">{key}</span>
+                  <span className="break-words text-muted-foreground">
+                    {formatFrontMatterValue(value)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <span className="text-muted-foreground">No fields</span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
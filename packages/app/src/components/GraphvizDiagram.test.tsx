@@ -0,0 +1,20 @@
+import { render, screen } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import { GraphvizDiagram } from './GraphvizDiagram'
+
+describe('GraphvizDiagram', () => {
+  it('renders DOT as an SVG with an export menu', async () => {
+    const { container } = render(<GraphvizDiagram code="digraph { a -> b }" colorMode="dark" />)
+
+    expect(await screen.findByRole('button', { name: 'Export Diagram' })).toBeInTheDocument()
+    expect(container.querySelector('svg .node')).not.toBeNull()
+  })
+
+  it('falls back to the code with a link to the error line', async () => {
+    render(<GraphvizDiagram code={'digraph {\n  a -> -> b\n}'} colorMode="light" />)
+
+    const link = await screen.findByRole('button', { name: 'Line 2' })
+    expect(link).toHaveAttribute('data-diagram-error-line', '2')
+    expect(screen.getByText(/digraph/)).toBeInTheDocument()
+  })
+})
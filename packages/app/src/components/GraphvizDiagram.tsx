@@ -0,0 +1,68 @@
+import { useState, useEffect, memo, type ReactElement } from 'react'
+import { DiagramExportMenu } from '@/components/DiagramExportMenu'
+import { DiagramFallback } from '@/components/DiagramFallback'
+import {
+  getGraphvizError,
+  getGraphvizTheme,
+  renderGraphviz,
+  type GraphvizError,
+} from '@/utils/graphviz'
+import type { MermaidColorMode } from '@/utils/mermaidTheme'
+
+interface GraphvizDiagramProps {
+  code: string
+  colorMode?: MermaidColorMode
+}
+
+/**
+ * Renders a Graphviz DOT graph with the bundled WebAssembly renderer.
+ * Shows SVG on success and falls back to a styled code block on syntax errors.
+ * @param props - Component props
+ * @param props.code - The DOT source code
+ * @param props.colorMode - Active app color mode
+ * @returns A rendered SVG graph or a fallback code block
+ */
+function GraphvizDiagramView({ code, colorMode = 'light' }: GraphvizDiagramProps): ReactElement {
+  const [svg, setSvg] = useState<string | null>(null)
+  const [error, setError] = useState<GraphvizError | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    renderGraphviz(code, colorMode).then(
+      (rendered) => {
+        if (cancelled) return
+        setSvg(rendered)
+        setError(null)
+      },
+      (e) => {
+        if (!cancelled) setError(getGraphvizError(e))
+      }
+    )
+
+    return () => {
+      cancelled = true
+    }
+  }, [code, colorMode])
+
+  if (svg && !error) {
+    return (
+      <div className="relative group/diagram my-4">
+        <div
+          className="flex justify-center overflow-x-auto"
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+        <DiagramExportMenu
+          svg={svg}
+          background={getGraphvizTheme(colorMode).background}
+          filename="graphviz-diagram"
+        />
+      </div>
+    )
+  }
+
+  return <DiagramFallback code={code} language="dot" error={error} />
+}
+
+/** Memoized so a graph only re-renders when its own code or color mode changes */
+export const GraphvizDiagram = memo(GraphvizDiagramView)
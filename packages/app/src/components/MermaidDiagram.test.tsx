@@ -1,4 +1,5 @@
 import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
 import { describe, it, expect, vi } from 'vitest'
 
 vi.mock('mermaid', () => ({
@@ -8,6 +9,11 @@ vi.mock('mermaid', () => ({
   },
 }))
 
+vi.mock('@/utils/clipboard', () => ({
+  copyToClipboard: vi.fn().mockResolvedValue(undefined),
+  copyImageToClipboard: vi.fn().mockResolvedValue(undefined),
+}))
+
 interface MermaidMock {
   initialize: ReturnType<typeof vi.fn>
   render: ReturnType<typeof vi.fn>
@@ -22,6 +28,7 @@ const loadModule = async () => {
   return {
     MermaidDiagram: componentModule.MermaidDiagram,
     mermaid: mermaidModule.default as unknown as MermaidMock,
+    clipboard: await import('@/utils/clipboard'),
   }
 }
 
@@ -53,6 +60,21 @@ describe('MermaidDiagram', () => {
     })
   })
 
+  it('shows the line of a syntax error', async () => {
+    const { MermaidDiagram, mermaid } = await loadModule()
+    mermaid.render.mockRejectedValue(
+      Object.assign(new Error("Parse error on line 2:\n...\n---^\nExpecting 'NODE', got 'EOF'"), {
+        hash: { loc: { first_line: 2, first_column: 2, last_line: 2, last_column: 5 } },
+      })
+    )
+
+    render(<MermaidDiagram code={'graph TD\n  A-->'} colorMode="light" />)
+
+    const link = await screen.findByRole('button', { name: 'Line 2' })
+    expect(link).toHaveAttribute('data-diagram-error-line', '2')
+    expect(screen.getByText(/Expecting 'NODE', got 'EOF'/)).toBeInTheDocument()
+  })
+
   it('re-initializes only when color mode changes', async () => {
     const { MermaidDiagram, mermaid } = await loadModule()
     mermaid.render.mockResolvedValue({
@@ -82,4 +104,42 @@ describe('MermaidDiagram', () => {
       expect(mermaid.initialize.mock.calls.length).toBeGreaterThan(initialInitializeCalls)
     })
   })
+
+  it('copies a standalone SVG with the theme background from the export menu', async () => {
+    const { MermaidDiagram, mermaid, clipboard } = await loadModule()
+    mermaid.render.mockResolvedValue({
+      svg: '<svg viewBox="0 0 100 50"><text>diagram</text></svg>',
+    })
+    const user = userEvent.setup()
+
+    render(<MermaidDiagram code="graph TD;A-->B" colorMode="dark" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Export Diagram' }))
+    await user.click(await screen.findByRole('menuitem', { name: 'Copy SVG' }))
+
+    await waitFor(() => {
+      expect(clipboard.copyToClipboard).toHaveBeenCalledTimes(1)
+    })
+    const copied = vi.mocked(clipboard.copyToClipboard).mock.calls[0][0]
+    expect(copied).toContain('width="100"')
+    expect(copied).toContain('background-color: #0d1117')
+  })
+
+  it('offers PNG downloads at each scale', async () => {
+    const { MermaidDiagram, mermaid } = await loadModule()
+    mermaid.render.mockResolvedValue({ svg: '<svg><text>diagram</text></svg>' })
+    const user = userEvent.setup()
+
+    render(<MermaidDiagram code="graph TD;A-->B" colorMode="light" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Export Diagram' }))
+
+    for (const scale of [1, 2, 4]) {
+      expect(
+        await screen.findByRole('menuitem', { name: `Download PNG (${scale}x)` })
+      ).toBeInTheDocument()
+    }
+    expect(screen.getByRole('menuitem', { name: 'Copy as Image' })).toBeInTheDocument()
+    expect(screen.getByRole('menuitem', { name: 'Download SVG' })).toBeInTheDocument()
+  })
 })
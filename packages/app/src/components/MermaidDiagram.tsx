@@ -1,5 +1,8 @@
-import { useState, useEffect, useRef, type ReactElement } from 'react'
+import { useState, useEffect, useRef, memo, type ReactElement } from 'react'
+import { DiagramExportMenu } from '@/components/DiagramExportMenu'
+import { DiagramFallback } from '@/components/DiagramFallback'
 import { getMermaidInitializeOptions, type MermaidColorMode } from '@/utils/mermaidTheme'
+import { getMermaidErrorLocation, type MermaidErrorLocation } from '@/utils/mermaidValidation'
 
 interface MermaidDiagramProps {
   code: string
@@ -18,9 +21,9 @@ let renderCounter = 0
  * @param props.colorMode - Active app color mode
  * @returns A rendered SVG diagram or a fallback code block
  */
-export function MermaidDiagram({ code, colorMode = 'light' }: MermaidDiagramProps): ReactElement {
+function MermaidDiagramView({ code, colorMode = 'light' }: MermaidDiagramProps): ReactElement {
   const [svg, setSvg] = useState<string | null>(null)
-  const [error, setError] = useState(false)
+  const [error, setError] = useState<MermaidErrorLocation | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -40,11 +43,11 @@ export function MermaidDiagram({ code, colorMode = 'light' }: MermaidDiagramProp
 
         if (!cancelled) {
           setSvg(rendered)
-          setError(false)
+          setError(null)
         }
-      } catch {
+      } catch (e) {
         if (!cancelled) {
-          setError(true)
+          setError(getMermaidErrorLocation(e, code))
         }
       }
     }
@@ -58,18 +61,24 @@ export function MermaidDiagram({ code, colorMode = 'light' }: MermaidDiagramProp
 
   if (svg && !error) {
     return (
-      <div
-        ref={containerRef}
-        className="flex justify-center my-4"
-        dangerouslySetInnerHTML={{ __html: svg }}
-      />
+      <div className="relative group/diagram my-4">
+        <div
+          ref={containerRef}
+          className="flex justify-center"
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+        <DiagramExportMenu
+          svg={svg}
+          background={getMermaidInitializeOptions(colorMode).themeVariables.background}
+          filename="mermaid-diagram"
+        />
+      </div>
     )
   }
 
   // Fallback: show the raw code in a styled pre/code block
-  return (
-    <pre>
-      <code className="hljs language-mermaid">{code}</code>
-    </pre>
-  )
+  return <DiagramFallback code={code} language="mermaid" error={error} />
 }
+
+/** Memoized so a diagram only re-renders when its own code or color mode changes */
+export const MermaidDiagram = memo(MermaidDiagramView)
@@ -0,0 +1,28 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { OutlineSidebar } from './OutlineSidebar'
+
+describe('OutlineSidebar', () => {
+  const headings = [
+    { level: 2, text: 'Setup', id: 'setup', line: 1 },
+    { level: 3, text: 'Install', id: 'install', line: 5 },
+  ]
+
+  it('indents headings relative to the top level', () => {
+    render(<OutlineSidebar headings={headings} onSelect={vi.fn()} />)
+    expect(screen.getByRole('button', { name: 'Setup' })).toHaveStyle({ paddingLeft: '8px' })
+    expect(screen.getByRole('button', { name: 'Install' })).toHaveStyle({ paddingLeft: '20px' })
+  })
+
+  it('calls onSelect with the clicked heading', () => {
+    const onSelect = vi.fn()
+    render(<OutlineSidebar headings={headings} onSelect={onSelect} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Install' }))
+    expect(onSelect).toHaveBeenCalledWith(headings[1])
+  })
+
+  it('shows an empty state without headings', () => {
+    render(<OutlineSidebar headings={[]} onSelect={vi.fn()} />)
+    expect(screen.getByText('No headings')).toBeInTheDocument()
+  })
+})
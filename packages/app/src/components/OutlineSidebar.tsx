@@ -0,0 +1,52 @@
+import type { ReactElement } from 'react'
+import { cn } from '@/utils/classnames'
+import type { HeadingEntry } from '@/utils/markdown'
+
+interface OutlineSidebarProps {
+  headings: HeadingEntry[]
+  onSelect: (heading: HeadingEntry) => void
+  className?: string
+}
+
+/**
+ * Sidebar listing the document's headings, indented by level
+ * @param props - Component props
+ * @returns Outline sidebar component
+ */
+export function OutlineSidebar({
+  headings,
+  onSelect,
+  className,
+}: OutlineSidebarProps): ReactElement {
+  const minLevel = Math.min(...headings.map((heading) => heading.level))
+
+  return (
+    <nav
+      aria-label="Outline"
+      className={cn('flex flex-col overflow-hidden rounded-md border border-border', className)}
+    >
+      <div className="px-3 py-2 text-xs font-medium uppercase text-muted-foreground">Outline</div>
+      <div className="flex-1 overflow-auto px-1 pb-2">
+        {headings.length > 0 ? (
+          headings.map((heading) => (
+            <button
+              key={`${heading.id}-${heading.line}`}
+              type="button"
+              onClick={() => onSelect(heading)}
+              title={heading.text}
+              style={{ paddingLeft: `${(heading.level - minLevel) * 12 + 8}px` }}
+              className={cn(
+                'block w-full truncate rounded-sm py-1 pr-2 text-left text-sm hover:bg-muted',
+                heading.level === minLevel ? 'text-foreground' : 'text-muted-foreground'
+              )}
+            >
+              {heading.text || 'Untitled'}
+            </button>
+          ))
+        ) : (
+          <p className="px-2 text-sm text-muted-foreground">No headings</p>
+        )}
+      </div>
+    </nav>
+  )
+}
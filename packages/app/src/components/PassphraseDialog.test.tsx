@@ -0,0 +1,39 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { PassphraseDialog } from './PassphraseDialog'
+
+describe('PassphraseDialog', () => {
+  it('shows an error when the passphrase is wrong', async () => {
+    const onSubmit = vi.fn().mockResolvedValue(false)
+    render(<PassphraseDialog open={true} mode="unlock" onSubmit={onSubmit} />)
+
+    fireEvent.change(screen.getByLabelText('Passphrase'), { target: { value: 'nope' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock' }))
+
+    expect(await screen.findByText('Incorrect passphrase')).toBeInTheDocument()
+    expect(onSubmit).toHaveBeenCalledWith('nope')
+  })
+
+  it('offers to start a new document instead of unlocking', () => {
+    const onDiscard = vi.fn()
+    render(<PassphraseDialog open={true} mode="unlock" onSubmit={vi.fn()} onDiscard={onDiscard} />)
+
+    expect(screen.queryByRole('button', { name: 'Close' })).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Start New Document' }))
+    expect(onDiscard).toHaveBeenCalled()
+  })
+
+  it('requires the passphrase to be confirmed when encrypting', () => {
+    const onSubmit = vi.fn().mockResolvedValue(true)
+    render(
+      <PassphraseDialog open={true} onOpenChange={() => {}} mode="encrypt" onSubmit={onSubmit} />
+    )
+
+    fireEvent.change(screen.getByLabelText('Passphrase'), { target: { value: 'one' } })
+    fireEvent.change(screen.getByLabelText('Confirm passphrase'), { target: { value: 'two' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Copy Link' }))
+
+    expect(screen.getByText('Passphrases do not match')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+})
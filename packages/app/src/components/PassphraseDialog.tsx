@@ -0,0 +1,128 @@
+import { useState, type ReactElement, type FormEvent } from 'react'
+import { Lock } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface PassphraseDialogProps {
+  open: boolean
+  onOpenChange?: (open: boolean) => void
+  /** 'unlock' asks for the passphrase of an opened link; 'encrypt' sets one for a new link */
+  mode: 'unlock' | 'encrypt'
+  /** Resolves false to show an error and keep the dialog open */
+  onSubmit: (passphrase: string) => Promise<boolean>
+  /** Unlock mode only: abandon the encrypted link and start a new document */
+  onDiscard?: () => void
+}
+
+/**
+ * Dialog asking for the passphrase of an encrypted share link
+ * @param props - Component props
+ * @returns Passphrase dialog component
+ */
+export function PassphraseDialog({
+  open,
+  onOpenChange,
+  mode,
+  onSubmit,
+  onDiscard,
+}: PassphraseDialogProps): ReactElement {
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState(false)
+
+  const isUnlock = mode === 'unlock'
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+    if (!isUnlock && passphrase !== confirmation) {
+      setError('Passphrases do not match')
+      return
+    }
+
+    setPending(true)
+    setError(null)
+    const ok = await onSubmit(passphrase)
+    setPending(false)
+    if (!ok) {
+      setError(isUnlock ? 'Incorrect passphrase' : 'Could not encrypt this document')
+    }
+  }
+
+  // An encrypted link can't be dismissed without unlocking or discarding it
+  const preventDismiss = (e: Event) => {
+    if (isUnlock) e.preventDefault()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isUnlock ? undefined : onOpenChange}>
+      <DialogContent
+        className="sm:max-w-[425px]"
+        showCloseButton={!isUnlock}
+        onEscapeKeyDown={preventDismiss}
+        onInteractOutside={preventDismiss}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="size-4" />
+            {isUnlock ? 'Encrypted Document' : 'Copy Encrypted Link'}
+          </DialogTitle>
+          <DialogDescription>
+            {isUnlock
+              ? 'This document is protected with a passphrase. Enter it to decrypt the document in your browser.'
+              : 'The link will only open with this passphrase. Share the passphrase separately; it cannot be recovered.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <div className="grid gap-2">
+            <Input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              aria-label="Passphrase"
+              autoComplete={isUnlock ? 'current-password' : 'new-password'}
+              autoFocus
+            />
+            {!isUnlock && (
+              <Input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Confirm passphrase"
+                aria-label="Confirm passphrase"
+                autoComplete="new-password"
+              />
+            )}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            {isUnlock
+              ? onDiscard && (
+                  <Button type="button" variant="outline" onClick={onDiscard}>
+                    Start New Document
+                  </Button>
+                )
+              : onOpenChange && (
+                  <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                    Cancel
+                  </Button>
+                )}
+            <Button type="submit" disabled={!passphrase || pending}>
+              {isUnlock ? 'Unlock' : 'Copy Link'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,66 @@
+import { forwardRef } from 'react'
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PoeEditor } from './PoeEditor'
+import { compressDocumentToHash } from '@/utils/compression'
+
+const toast = vi.fn()
+
+vi.mock('@/hooks/useToast', () => ({
+  toast: (...args: unknown[]) => toast(...args),
+  useToast: () => ({ toast }),
+}))
+
+// Monaco doesn't run in jsdom; the document is read from the preview instead
+vi.mock('@/components/editor', () => ({
+  EditorPane: forwardRef(function EditorPaneMock() {
+    return <div data-testid="editor" />
+  }),
+}))
+
+vi.mock('monaco-vim', () => ({
+  initVimMode: vi.fn(),
+  VimMode: { Vim: null },
+}))
+
+vi.mock('@monaco-editor/react', () => ({
+  default: () => null,
+}))
+
+describe('PoeEditor', () => {
+  beforeEach(() => {
+    toast.mockClear()
+    window.matchMedia = vi.fn((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    }))
+  })
+
+  it('ignores document shortcuts on read-only links without a success toast', async () => {
+    window.history.replaceState(
+      null,
+      '',
+      `/#${compressDocumentToHash({ content: '# Shared', name: 'shared.md', readOnly: true })}`
+    )
+    render(<PoeEditor />)
+    expect(await screen.findByRole('heading', { name: 'Shared' })).toBeInTheDocument()
+
+    await act(async () => {
+      for (const code of ['KeyN', 'KeyK']) {
+        fireEvent.keyDown(window, { code, ctrlKey: true, altKey: true })
+      }
+    })
+
+    expect(screen.getByRole('heading', { name: 'Shared' })).toBeInTheDocument()
+    expect(screen.queryByText('New Document')).not.toBeInTheDocument()
+    expect(toast).not.toHaveBeenCalledWith(
+      expect.objectContaining({ description: expect.stringMatching(/cleared|created/) })
+    )
+  })
+})
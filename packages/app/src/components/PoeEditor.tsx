@@ -11,11 +11,22 @@ import { useSyncScroll } from '@/hooks/useSyncScroll'
 import { useTransformers } from '@/hooks/useTransformers'
 import { useEditorPreferences } from '@/hooks/useEditorPreferences'
 import { useSpellCheck } from '@/hooks/useSpellCheck'
-import { renderMarkdown } from '@/utils/markdown'
+import { useDocumentLibrary } from '@/hooks/useDocumentLibrary'
+import { useVersionHistory } from '@/hooks/useVersionHistory'
+import { useMarkdownRenderer } from '@/hooks/useMarkdownRenderer'
+import { getHeadings, getTaskProgress, type HeadingEntry } from '@/utils/markdown'
+import { toggleTaskMarker } from '@/utils/markdownTasks'
+import { scrollToAnchor } from '@/utils/anchors'
+import { findSourcePosition } from '@/utils/sourceLines'
+import { KATEX_STYLESHEET_URL } from '@/utils/markdownMath'
+import { CODE_BLOCK_EXPORT_STYLES } from '@/utils/markdownCodeBlocks'
+import { extractFrontMatter } from '@/utils/frontMatter'
 import { downloadFile } from '@/utils/download'
 import { applyPipeline } from '@/utils/transformer-engine'
 import { EditorPane, type EditorPaneHandle, type TableAction } from '@/components/editor'
 import { PreviewPane } from '@/components/PreviewPane'
+import { OutlineSidebar } from '@/components/OutlineSidebar'
+import { DiffPane } from '@/components/DiffPane'
 import { SplashScreen } from '@/components/SplashScreen'
 import { TooltipProvider } from '@/components/ui/tooltip'
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable'
@@ -35,12 +46,19 @@ import { KeyboardShortcutsDialog } from '@/components/KeyboardShortcutsDialog'
 import { EditorToolbar } from '@/components/EditorToolbar'
 import { RenameDialog } from '@/components/RenameDialog'
 import { NewDocumentDialog } from '@/components/NewDocumentDialog'
+import { DocumentLibraryDialog } from '@/components/DocumentLibraryDialog'
+import { VersionHistoryDialog } from '@/components/VersionHistoryDialog'
+import { PassphraseDialog } from '@/components/PassphraseDialog'
 import { TransformerDialog } from '@/components/transformer/TransformerDialog'
 import { TransformerImportExportDialog } from '@/components/transformer/TransformerImportExportDialog'
 import type { TransformationPipeline } from '@/components/transformer/types'
+import type { LibraryDocument } from '@/utils/documentLibrary'
+import type { Snapshot } from '@/utils/snapshots'
 import { useToast } from '@/hooks/useToast'
 import { generateShareableUrl } from '@/utils/urlShare'
+import { compressDocumentToEncryptedHash, compressDocumentToHash } from '@/utils/compression'
 import { getMermaidInitScript, type MermaidColorMode } from '@/utils/mermaidTheme'
+import { inlineGraphvizDiagrams } from '@/utils/graphviz'
 
 import {
   formatBold,
@@ -100,23 +118,19 @@ export function PoeEditor({ onReady }: PoeEditorProps): ReactElement {
   const [showResetConfirm, setShowResetConfirm] = useState(false)
   const [showTransformer, setShowTransformer] = useState(false)
   const [showImportExport, setShowImportExport] = useState(false)
+  const [showLibrary, setShowLibrary] = useState(false)
+  const [activeLibraryId, setActiveLibraryId] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showEncryptLink, setShowEncryptLink] = useState(false)
   const [editingPipeline, setEditingPipeline] = useState<TransformationPipeline | null>(null)
   const [selectedText, setSelectedText] = useState<string | undefined>(undefined)
-  const [, setCursorPosition] = useState({
+  const [cursorPosition, setCursorPosition] = useState({
     lineNumber: 1,
     column: 1,
   })
   const [isInTable, setIsInTable] = useState(false)
   const documentMenuRef = useRef<HTMLButtonElement>(null)
 
-  /* View mode management */
-  const { viewMode, setViewMode } = useViewMode()
-
-  // For mobile, we map 'split' (default) to 'editor' if it happens to be set
-  const activeTab = viewMode === 'split' ? 'editor' : viewMode
-
-  const isMobile = useIsMobile()
-
   // Stable error handler to prevent useUrlState effect from re-running
   const handleError = useCallback(
     (error: Error) => {
@@ -141,16 +155,45 @@ export function PoeEditor({ onReady }: PoeEditorProps): ReactElement {
   )
 
   // Editor preferences
-  const { startEmpty, toggleStartEmpty } = useEditorPreferences()
+  const {
+    startEmpty,
+    toggleStartEmpty,
+    showOutline,
+    toggleOutline,
+    markdownExtensions,
+    toggleMarkdownExtension,
+  } = useEditorPreferences()
 
   // URL state management
-  const { content, setContent, documentName, setDocumentName, isOverLimit } = useUrlState({
+  const {
+    content,
+    setContent,
+    documentName,
+    setDocumentName,
+    documentId,
+    setDocumentId,
+    isOverLimit,
+    hashStats,
+    isLocked,
+    unlock,
+    isEncrypted,
+    readOnly,
+    makeEditable,
+  } = useUrlState({
     defaultContent: startEmpty ? '' : DEFAULT_CONTENT,
     defaultName: 'untitled.md',
     onError: handleError,
     onLengthWarning: handleLengthWarning,
   })
 
+  /* View mode management */
+  const { viewMode, setViewMode } = useViewMode({ readOnly })
+
+  // For mobile, we map 'split' (default) to 'editor' if it happens to be set
+  const activeTab = viewMode === 'split' ? 'editor' : viewMode
+
+  const isMobile = useIsMobile()
+
   // Vim mode management
   const { vimMode: vimModeEnabled, toggleVimMode } = useVimMode()
 
@@ -167,15 +210,100 @@ export function PoeEditor({ onReady }: PoeEditorProps): ReactElement {
   // Spell check state
   const { spellCheck, setSpellCheck, toggleSpellCheck } = useSpellCheck()
 
+  // Local document library
+  const {
+    documents: libraryDocuments,
+    loading: libraryLoading,
+    saveDocument,
+    duplicateDocument,
+    deleteDocument,
+  } = useDocumentLibrary({ onError: handleError })
+
+  // Version history, keyed by the document's id so it follows renames. Unlocked encrypted
+  // links only get the checkpoints the user asks for, since snapshots are stored in plaintext.
+  const { snapshots, createCheckpoint, removeSnapshot, moveHistory } = useVersionHistory({
+    documentKey: documentId,
+    content,
+    documentName,
+    autoSnapshots: !isEncrypted,
+    onError: handleError,
+  })
+
   // Scroll synchronization
-  const { sourceRef, targetRef } = useSyncScroll<EditorPaneHandle, HTMLDivElement>({
+  const { sourceRef, targetRef, suspendSync } = useSyncScroll<EditorPaneHandle, HTMLDivElement>({
     enabled: !isMobile,
   })
 
-  // Rendered HTML for preview
-  const htmlContent = useMemo(() => renderMarkdown(content), [content])
+  // Rendered HTML for preview, produced off the main thread
+  const {
+    html: htmlContent,
+    blocks: previewBlocks,
+    isPending: isRenderPending,
+  } = useMarkdownRenderer(content, markdownExtensions)
+  const frontMatter = useMemo(() => extractFrontMatter(content).frontMatter, [content])
+  const headings = useMemo(() => getHeadings(content), [content])
+  const taskProgress = useMemo(() => getTaskProgress(content), [content])
   const colorMode: MermaidColorMode = mounted && theme === 'dark' ? 'dark' : 'light'
 
+  // Moves the editor cursor and the preview to a heading
+  const handleJumpToHeading = useCallback(
+    (heading: HeadingEntry): void => {
+      suspendSync()
+      // The mobile editor is hidden behind the preview tab, so focusing it would be jarring
+      if (!isMobile) sourceRef.current?.revealLine(heading.line)
+      if (targetRef.current) scrollToAnchor(targetRef.current, heading.id)
+    },
+    [sourceRef, targetRef, suspendSync, isMobile]
+  )
+
+  // Places the editor cursor on the source of a double-clicked preview element
+  const handleLocateSource = useCallback(
+    (line: number, text: string): void => {
+      const position = findSourcePosition(content, line, text)
+      if (viewMode === 'split' || viewMode === 'editor') {
+        sourceRef.current?.revealPosition(position)
+        return
+      }
+      // Show the editor first; the position is applied once it has mounted
+      setViewMode(isMobile ? 'editor' : 'split')
+      requestAnimationFrame(() => sourceRef.current?.revealPosition(position))
+    },
+    [content, viewMode, setViewMode, isMobile, sourceRef]
+  )
+
+  // Follows an in-page link; targets that aren't headings (e.g. footnotes) only move the preview
+  const handleNavigateAnchor = useCallback(
+    (id: string): void => {
+      const heading = headings.find((entry) => entry.id === id)
+      if (heading) {
+        handleJumpToHeading(heading)
+      } else if (targetRef.current) {
+        suspendSync()
+        scrollToAnchor(targetRef.current, id)
+      }
+    },
+    [headings, handleJumpToHeading, targetRef, suspendSync]
+  )
+
+  // Toggles a task checkbox clicked in the preview. Edits go through the editor when it is
+  // mounted so they join its undo stack; either way useUrlState persists the new content.
+  const handleToggleTask = useCallback(
+    (line: number): void => {
+      const editor = sourceRef.current
+      const lines = content.split('\n')
+      const toggled = toggleTaskMarker(editor?.getLineContent(line) ?? lines[line - 1] ?? '')
+      if (toggled === null) return
+
+      if (editor) {
+        editor.setLineContent(line, toggled)
+      } else {
+        lines[line - 1] = toggled
+        setContent(lines.join('\n'))
+      }
+    },
+    [content, setContent, sourceRef]
+  )
+
   // Formatting functions
   const handleFormatBold = useCallback((): void => {
     formatBold(sourceRef.current)
@@ -290,16 +418,95 @@ export function PoeEditor({ onReady }: PoeEditorProps): ReactElement {
     window.location.reload()
   }, [])
 
-  // Document management functions
+  // Document management functions. Read-only links can't replace their content, so the
+  // actions that would are hidden in the toolbar and ignored from keyboard shortcuts.
   const handleNew = useCallback((): void => {
+    if (readOnly) return
     setShowNewDialog(true)
-  }, [])
+  }, [readOnly])
 
   const handleNewConfirm = useCallback((): void => {
+    if (readOnly) return
     setContent('')
     setDocumentName('untitled.md')
+    setDocumentId(crypto.randomUUID())
+    setActiveLibraryId(null)
     toast({ description: 'New document created' })
-  }, [setContent, setDocumentName, toast])
+  }, [readOnly, setContent, setDocumentName, setDocumentId, toast])
+
+  const handleSaveToLibrary = useCallback(async (): Promise<void> => {
+    // The library is stored in plaintext
+    if (isEncrypted) return
+    const saved = await saveDocument({ content, name: documentName }, activeLibraryId)
+    if (saved) {
+      // Reopening from the library brings back the library id, so history moves to it now
+      if (!readOnly && saved.id !== documentId) {
+        await moveHistory(saved.id)
+        setDocumentId(saved.id)
+      }
+      setActiveLibraryId(saved.id)
+      toast({ description: `Saved ${saved.title} to library` })
+    }
+  }, [
+    isEncrypted,
+    readOnly,
+    saveDocument,
+    content,
+    documentName,
+    activeLibraryId,
+    documentId,
+    moveHistory,
+    setDocumentId,
+    toast,
+  ])
+
+  const handleOpenLibraryDocument = useCallback(
+    (document: LibraryDocument): void => {
+      if (readOnly) return
+      setContent(document.content)
+      setDocumentName(document.name)
+      setDocumentId(document.id)
+      setActiveLibraryId(document.id)
+      toast({ description: `Opened ${document.title}` })
+    },
+    [readOnly, setContent, setDocumentName, setDocumentId, toast]
+  )
+
+  const handleCreateCheckpoint = useCallback(
+    async (label: string): Promise<void> => {
+      const checkpoint = await createCheckpoint(label)
+      if (checkpoint) toast({ description: `Checkpoint "${label}" saved` })
+    },
+    [createCheckpoint, toast]
+  )
+
+  const handleRestoreSnapshot = useCallback(
+    (snapshot: Snapshot): void => {
+      if (readOnly) return
+      setContent(snapshot.content)
+      toast({
+        description: `Restored ${snapshot.label ?? 'snapshot'} from ${new Date(snapshot.createdAt).toLocaleString()}`,
+      })
+    },
+    [readOnly, setContent, toast]
+  )
+
+  const handleDuplicateLibraryDocument = useCallback(
+    async (id: string): Promise<void> => {
+      const copy = await duplicateDocument(id)
+      if (copy) toast({ description: `Duplicated as ${copy.name}` })
+    },
+    [duplicateDocument, toast]
+  )
+
+  const handleDeleteLibraryDocument = useCallback(
+    async (id: string): Promise<void> => {
+      if (!(await deleteDocument(id))) return
+      if (id === activeLibraryId) setActiveLibraryId(null)
+      toast({ description: 'Document removed from library' })
+    },
+    [deleteDocument, activeLibraryId, toast]
+  )
 
   const handleRename = useCallback((): void => {
     setShowRename(true)
@@ -320,12 +527,19 @@ export function PoeEditor({ onReady }: PoeEditorProps): ReactElement {
     toast({ description: 'Downloaded as Markdown' })
   }, [documentName, content, toast])
 
-  const handleDownloadHTML = useCallback((): void => {
+  const handleDownloadHTML = useCallback(async (): Promise<void> => {
+    // Graphviz has no browser runtime to load from the page, so inline its SVG
+    const bodyHtml = await inlineGraphvizDiagrams(htmlContent, colorMode)
     const hasMermaid = htmlContent.includes('language-mermaid')
+    const hasMath = htmlContent.includes('class="katex')
     const mermaidInitScript = getMermaidInitScript(colorMode)
     const mermaidScripts = hasMermaid
       ? `\n  <script src="https://cdn.jsdelivr.net/npm/mermaid@11.12.2/dist/mermaid.min.js"></script>\n  <script>${mermaidInitScript}</script>`
       : ''
+    const hasCodeBlocks = bodyHtml.includes('class="code-block"')
+    const mathStylesheet = hasMath
+      ? `\n  <link rel="stylesheet" href="${KATEX_STYLESHEET_URL}">`
+      : ''
 
     const htmlDoc = `<!DOCTYPE html>
 <html lang="en">
@@ -333,14 +547,14 @@ export function PoeEditor({ onReady }: PoeEditorProps): ReactElement {
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>${documentName}</title>
-  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/github-markdown-css@5/github-markdown.min.css">${mermaidScripts}
+  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/github-markdown-css@5/github-markdown.min.css">${mathStylesheet}${mermaidScripts}
   <style>
     .markdown-body { box-sizing: border-box; min-width: 200px; max-width: 980px; margin: 0 auto; padding: 45px; }
-    @media (max-width: 767px) { .markdown-body { padding: 15px; } }
+    @media (max-width: 767px) { .markdown-body { padding: 15px; } }${hasCodeBlocks ? CODE_BLOCK_EXPORT_STYLES : ''}
   </style>
 </head>
 <body class="markdown-body">
-${htmlContent}
+${bodyHtml}
 </body>
 </html>`
     const htmlFileName = documentName.replace(/\.md$/, '.html')
@@ -368,10 +582,52 @@ ${htmlContent}
     }
   }, [toast, content, documentName])
 
+  const handleCopyEncryptedLink = useCallback(
+    async (passphrase: string): Promise<boolean> => {
+      try {
+        const hash = await compressDocumentToEncryptedHash(
+          { content, name: documentName },
+          passphrase
+        )
+        await navigator.clipboard.writeText(generateShareableUrl(content, documentName, hash))
+        setShowEncryptLink(false)
+        toast({ description: 'Encrypted link copied to clipboard!' })
+        return true
+      } catch {
+        return false
+      }
+    },
+    [toast, content, documentName]
+  )
+
+  const handleCopyReadOnlyLink = useCallback(async (): Promise<void> => {
+    try {
+      const hash = compressDocumentToHash({ content, name: documentName, readOnly: true })
+      await navigator.clipboard.writeText(generateShareableUrl(content, documentName, hash))
+      toast({ description: 'Read-only link copied to clipboard!' })
+    } catch {
+      toast({
+        variant: 'destructive',
+        description: 'Failed to copy link',
+      })
+    }
+  }, [toast, content, documentName])
+
+  const handleMakeEditableCopy = useCallback((): void => {
+    makeEditable()
+    toast({ description: 'Editing a copy; the shared link is unchanged' })
+  }, [makeEditable, toast])
+
+  // Leaves a locked encrypted link for a fresh document
+  const handleDiscardEncrypted = useCallback((): void => {
+    window.location.assign(window.location.origin)
+  }, [])
+
   const handleClear = useCallback((): void => {
+    if (readOnly) return
     setContent('')
     toast({ description: 'Content cleared' })
-  }, [setContent, toast])
+  }, [readOnly, setContent, toast])
 
   const handleSave = useCallback((): void => {
     // Save is automatic via URL state, just show confirmation
@@ -512,6 +768,44 @@ ${htmlContent}
         onConfirm={handleNewConfirm}
       />
 
+      <DocumentLibraryDialog
+        key={`library-${showLibrary}`}
+        open={showLibrary}
+        onOpenChange={setShowLibrary}
+        documents={libraryDocuments}
+        loading={libraryLoading}
+        activeDocumentId={activeLibraryId}
+        onOpenDocument={handleOpenLibraryDocument}
+        onDuplicateDocument={handleDuplicateLibraryDocument}
+        onDeleteDocument={handleDeleteLibraryDocument}
+      />
+
+      <VersionHistoryDialog
+        key={`history-${showHistory}`}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        snapshots={snapshots}
+        currentContent={content}
+        onCreateCheckpoint={handleCreateCheckpoint}
+        onRestore={handleRestoreSnapshot}
+        onDelete={removeSnapshot}
+      />
+
+      <PassphraseDialog
+        open={isLocked}
+        mode="unlock"
+        onSubmit={unlock}
+        onDiscard={handleDiscardEncrypted}
+      />
+
+      <PassphraseDialog
+        key={`encrypt-link-${showEncryptLink}`}
+        open={showEncryptLink}
+        onOpenChange={setShowEncryptLink}
+        mode="encrypt"
+        onSubmit={handleCopyEncryptedLink}
+      />
+
       {showSplash && (
         <SplashScreen onComplete={() => setShowSplash(false)} isLoading={false} debug={true} />
       )}
@@ -520,14 +814,24 @@ ${htmlContent}
         <EditorToolbar
           documentName={documentName}
           isOverLimit={isOverLimit}
+          hashStats={hashStats}
           vimModeEnabled={vimModeEnabled}
           theme={theme}
           mounted={mounted}
           onNew={handleNew}
           onRename={handleRename}
+          onSaveToLibrary={handleSaveToLibrary}
+          onOpenLibrary={() => setShowLibrary(true)}
+          onOpenHistory={() => setShowHistory(true)}
+          onOpenDiff={() => setViewMode('diff')}
           onDownloadMarkdown={handleDownloadMarkdown}
           onDownloadHTML={handleDownloadHTML}
           onCopyLink={handleCopyLink}
+          onCopyEncryptedLink={() => setShowEncryptLink(true)}
+          onCopyReadOnlyLink={handleCopyReadOnlyLink}
+          readOnly={readOnly}
+          encrypted={isEncrypted}
+          onMakeEditableCopy={handleMakeEditableCopy}
           onClear={handleClear}
           onFormatBold={handleFormatBold}
           onFormatItalic={handleFormatItalic}
@@ -563,6 +867,10 @@ ${htmlContent}
           toggleLineNumbers={toggleLineNumbers}
           startEmpty={startEmpty}
           toggleStartEmpty={toggleStartEmpty}
+          showOutline={showOutline}
+          toggleOutline={isMobile ? undefined : toggleOutline}
+          markdownExtensions={markdownExtensions}
+          toggleMarkdownExtension={toggleMarkdownExtension}
           documentMenuRef={documentMenuRef}
           spellCheck={spellCheck}
           toggleSpellCheck={toggleSpellCheck}
@@ -600,54 +908,86 @@ ${htmlContent}
         <main className="flex-1 overflow-hidden">
           {!isMobile ? (
             <div className="h-full p-4">
-              <ResizablePanelGroup orientation="horizontal" className="h-full">
-                {(viewMode === 'split' || viewMode === 'editor') && (
-                  <>
-                    <ResizablePanel defaultSize={viewMode === 'split' ? 50 : 100} minSize={30}>
-                      <div className={cn('h-full', viewMode === 'split' && 'pr-2')}>
-                        <EditorPane
-                          ref={sourceRef}
-                          value={content}
-                          onChange={setContent}
-                          onCursorChange={(p) => {
-                            setCursorPosition(p)
-                            setIsInTable(p.isInTable ?? false)
-                          }}
-                          theme={mounted && theme === 'dark' ? 'dark' : 'light'}
-                          onFormat={handleFormat}
-                          onCodeBlock={handleFormatCodeBlock}
-                          vimMode={vimModeEnabled}
-                          showWordCount={showWordCount}
-                          showLineNumbers={showLineNumbers}
-                          viewMode={viewMode}
-                          onToggleLayout={handleToggleEditor}
-                          spellCheck={spellCheck}
-                          onSpellCheckChange={setSpellCheck}
-                        />
-                      </div>
-                    </ResizablePanel>
-                    {viewMode === 'split' && <ResizableHandle withHandle className="mx-2" />}
-                  </>
-                )}
-
-                {(viewMode === 'split' || viewMode === 'preview') && (
-                  <ResizablePanel defaultSize={viewMode === 'split' ? 50 : 100} minSize={30}>
-                    <div className={cn('h-full', viewMode === 'split' && 'pl-2')}>
-                      <PreviewPane
-                        ref={targetRef}
-                        htmlContent={htmlContent}
-                        viewMode={viewMode}
-                        onToggleLayout={handleTogglePreview}
-                        colorMode={colorMode}
-                      />
-                    </div>
-                  </ResizablePanel>
-                )}
-              </ResizablePanelGroup>
+              {viewMode === 'diff' ? (
+                <DiffPane
+                  content={content}
+                  theme={mounted && theme === 'dark' ? 'dark' : 'light'}
+                  libraryDocuments={libraryDocuments}
+                  snapshots={snapshots}
+                  onClose={() => setViewMode('split')}
+                />
+              ) : (
+                <div className="flex h-full gap-4">
+                  {showOutline && (
+                    <OutlineSidebar
+                      headings={headings}
+                      onSelect={handleJumpToHeading}
+                      className="w-56 shrink-0"
+                    />
+                  )}
+                  <ResizablePanelGroup orientation="horizontal" className="h-full flex-1 min-w-0">
+                    {(viewMode === 'split' || viewMode === 'editor') && (
+                      <>
+                        <ResizablePanel defaultSize={viewMode === 'split' ? 50 : 100} minSize={30}>
+                          <div className={cn('h-full', viewMode === 'split' && 'pr-2')}>
+                            <EditorPane
+                              ref={sourceRef}
+                              value={content}
+                              onChange={setContent}
+                              onCursorChange={(p) => {
+                                setCursorPosition(p)
+                                setIsInTable(p.isInTable ?? false)
+                              }}
+                              theme={mounted && theme === 'dark' ? 'dark' : 'light'}
+                              onFormat={handleFormat}
+                              onCodeBlock={handleFormatCodeBlock}
+                              vimMode={vimModeEnabled}
+                              showWordCount={showWordCount}
+                              showLineNumbers={showLineNumbers}
+                              viewMode={viewMode}
+                              onToggleLayout={handleToggleEditor}
+                              spellCheck={spellCheck}
+                              onSpellCheckChange={setSpellCheck}
+                            />
+                          </div>
+                        </ResizablePanel>
+                        {viewMode === 'split' && <ResizableHandle withHandle className="mx-2" />}
+                      </>
+                    )}
+
+                    {(viewMode === 'split' || viewMode === 'preview') && (
+                      <ResizablePanel defaultSize={viewMode === 'split' ? 50 : 100} minSize={30}>
+                        <div className={cn('h-full', viewMode === 'split' && 'pl-2')}>
+                          <PreviewPane
+                            ref={targetRef}
+                            htmlContent={htmlContent}
+                            blocks={previewBlocks}
+                            isRendering={isRenderPending}
+                            viewMode={viewMode}
+                            onToggleLayout={readOnly ? undefined : handleTogglePreview}
+                            colorMode={colorMode}
+                            frontMatter={frontMatter}
+                            onNavigateAnchor={handleNavigateAnchor}
+                            onToggleTask={readOnly ? undefined : handleToggleTask}
+                            taskProgress={taskProgress}
+                            onLocateSource={readOnly ? undefined : handleLocateSource}
+                            activeLine={viewMode === 'split' ? cursorPosition.lineNumber : null}
+                          />
+                        </div>
+                      </ResizablePanel>
+                    )}
+                  </ResizablePanelGroup>
+                </div>
+              )}
             </div>
           ) : (
             <div className="h-full flex flex-col">
-              <div className="w-full border-b border-border/60 bg-background h-10 flex">
+              <div
+                className={cn(
+                  'w-full border-b border-border/60 bg-background h-10 flex',
+                  readOnly && 'hidden'
+                )}
+              >
                 <button
                   onClick={() => setViewMode('editor')}
                   className={cn(
@@ -672,33 +1012,59 @@ ${htmlContent}
                 </button>
               </div>
 
-              {/* Editor Pane - Always mounted, hidden when not active */}
-              <div className={cn('flex-1 p-4 mt-0', activeTab !== 'editor' && 'hidden')}>
-                <EditorPane
-                  ref={sourceRef}
-                  value={content}
-                  onChange={setContent}
-                  onCursorChange={(p) => {
-                    setCursorPosition(p)
-                    setIsInTable(p.isInTable ?? false)
-                  }}
-                  theme={mounted && theme === 'dark' ? 'dark' : 'light'}
-                  onFormat={handleFormat}
-                  onCodeBlock={handleFormatCodeBlock}
-                  vimMode={vimModeEnabled}
-                  showWordCount={showWordCount}
-                  showLineNumbers={showLineNumbers}
-                  viewMode={activeTab === 'editor' ? 'editor' : 'preview'}
-                  spellCheck={spellCheck}
-                  onSpellCheckChange={setSpellCheck}
-                />
-              </div>
+              {activeTab === 'diff' && (
+                <div className="flex-1 p-4 mt-0 min-h-0">
+                  <DiffPane
+                    content={content}
+                    theme={mounted && theme === 'dark' ? 'dark' : 'light'}
+                    libraryDocuments={libraryDocuments}
+                    snapshots={snapshots}
+                    inline
+                    onClose={() => setViewMode('editor')}
+                  />
+                </div>
+              )}
+
+              {/* Editor Pane - Always mounted (unless read-only), hidden when not active */}
+              {!readOnly && (
+                <div className={cn('flex-1 p-4 mt-0', activeTab !== 'editor' && 'hidden')}>
+                  <EditorPane
+                    ref={sourceRef}
+                    value={content}
+                    onChange={setContent}
+                    onCursorChange={(p) => {
+                      setCursorPosition(p)
+                      setIsInTable(p.isInTable ?? false)
+                    }}
+                    theme={mounted && theme === 'dark' ? 'dark' : 'light'}
+                    onFormat={handleFormat}
+                    onCodeBlock={handleFormatCodeBlock}
+                    vimMode={vimModeEnabled}
+                    showWordCount={showWordCount}
+                    showLineNumbers={showLineNumbers}
+                    viewMode={activeTab === 'editor' ? 'editor' : 'preview'}
+                    spellCheck={spellCheck}
+                    onSpellCheckChange={setSpellCheck}
+                  />
+                </div>
+              )}
 
               {/* Preview Pane - Always mounted, hidden when not active */}
               <div
                 className={cn('flex-1 p-4 mt-0 overflow-auto', activeTab !== 'preview' && 'hidden')}
               >
-                <PreviewPane ref={targetRef} htmlContent={htmlContent} colorMode={colorMode} />
+                <PreviewPane
+                  ref={targetRef}
+                  htmlContent={htmlContent}
+                  blocks={previewBlocks}
+                  isRendering={isRenderPending}
+                  colorMode={colorMode}
+                  frontMatter={frontMatter}
+                  onNavigateAnchor={handleNavigateAnchor}
+                  onToggleTask={readOnly ? undefined : handleToggleTask}
+                  taskProgress={taskProgress}
+                  onLocateSource={readOnly ? undefined : handleLocateSource}
+                />
               </div>
             </div>
           )}
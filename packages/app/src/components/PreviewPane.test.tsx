@@ -3,11 +3,13 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { PreviewPane } from './PreviewPane'
 import { copyToClipboard } from '@/utils/clipboard'
 import { toast } from '@/hooks/useToast'
+import type { PreviewBlock } from '@/utils/markdownRender'
 
 // Mock the utilities and toast hook
 vi.mock('@/utils/clipboard', () => ({
   copyToClipboard: vi.fn(),
   stripHtml: vi.fn((html) => html.replace(/<[^>]*>?/gm, '')),
+  prepareClipboardHtml: vi.fn((html) => html),
 }))
 
 vi.mock('@/hooks/useToast', () => ({
@@ -26,6 +28,184 @@ describe('PreviewPane', () => {
     expect(screen.getByText('Test content')).toBeInTheDocument()
   })
 
+  it('shows front matter in a collapsible metadata panel', () => {
+    render(
+      <PreviewPane
+        htmlContent={htmlContent}
+        frontMatter={{
+          format: 'yaml',
+          raw: 'title: Notes\ntags: [a, b]',
+          data: { title: 'Notes', tags: ['a', 'b'] },
+          lineCount: 4,
+        }}
+      />
+    )
+
+    const toggle = screen.getByRole('button', { name: /metadata/i })
+    expect(toggle).toHaveAttribute('aria-expanded', 'false')
+    expect(screen.queryByText('a, b')).not.toBeInTheDocument()
+
+    fireEvent.click(toggle)
+    expect(toggle).toHaveAttribute('aria-expanded', 'true')
+    expect(screen.getByText('Notes')).toBeInTheDocument()
+    expect(screen.getByText('a, b')).toBeInTheDocument()
+  })
+
+  it('reports in-page link clicks instead of changing the URL hash', () => {
+    const onNavigateAnchor = vi.fn()
+    render(
+      <PreviewPane
+        htmlContent={
+          '<nav class="table-of-contents"><a href="#set-up">Set up</a></nav><p><a href="#faq">FAQ</a></p>'
+        }
+        onNavigateAnchor={onNavigateAnchor}
+      />
+    )
+
+    expect(fireEvent.click(screen.getByRole('link', { name: 'Set up' }))).toBe(false)
+    expect(onNavigateAnchor).toHaveBeenCalledWith('set-up')
+    expect(fireEvent.click(screen.getByRole('link', { name: 'FAQ' }))).toBe(false)
+    expect(onNavigateAnchor).toHaveBeenCalledWith('faq')
+  })
+
+  it('uses in-page link ids with malformed escapes as written', () => {
+    const onNavigateAnchor = vi.fn()
+    render(
+      <PreviewPane
+        htmlContent={'<a href="#100%">Done</a><a href="#caf%C3%A9">Café</a>'}
+        onNavigateAnchor={onNavigateAnchor}
+      />
+    )
+
+    expect(fireEvent.click(screen.getByRole('link', { name: 'Done' }))).toBe(false)
+    expect(onNavigateAnchor).toHaveBeenCalledWith('100%')
+    fireEvent.click(screen.getByRole('link', { name: 'Café' }))
+    expect(onNavigateAnchor).toHaveBeenCalledWith('café')
+  })
+
+  it('leaves external links alone', () => {
+    const onNavigateAnchor = vi.fn()
+    render(
+      <PreviewPane
+        htmlContent={'<a href="https://example.com">Site</a>'}
+        onNavigateAnchor={onNavigateAnchor}
+      />
+    )
+
+    expect(fireEvent.click(screen.getByRole('link', { name: 'Site' }))).toBe(true)
+    expect(onNavigateAnchor).not.toHaveBeenCalled()
+  })
+
+  it('toggles task checkboxes through the source instead of the DOM', () => {
+    const onToggleTask = vi.fn()
+    render(
+      <PreviewPane
+        htmlContent={
+          '<ul data-source-line="3"><li data-line-offset="1"><input type="checkbox" class="task-list-item-checkbox"> Ship</li></ul>'
+        }
+        onToggleTask={onToggleTask}
+        taskProgress={{ done: 0, total: 1 }}
+      />
+    )
+
+    const checkbox = screen.getByRole('checkbox')
+    fireEvent.click(checkbox)
+    expect(onToggleTask).toHaveBeenCalledWith(4)
+    expect(checkbox).not.toBeChecked()
+    expect(screen.getByText('0/1 tasks done')).toBeInTheDocument()
+  })
+
+  it('hides the task summary when there are no tasks', () => {
+    render(<PreviewPane htmlContent={htmlContent} taskProgress={{ done: 0, total: 0 }} />)
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument()
+  })
+
+  it('only patches blocks whose key changed', () => {
+    const block = (key: string, text: string): PreviewBlock => ({
+      key,
+      lines: null,
+      segments: [{ type: 'html', content: `<p>${text}</p>` }],
+    })
+    const { rerender } = render(
+      <PreviewPane htmlContent="" blocks={[block('a', 'First'), block('b', 'Second')]} />
+    )
+    const unchanged = screen.getByText('Second')
+
+    rerender(
+      <PreviewPane
+        htmlContent=""
+        blocks={[block('c', 'Edited'), { ...block('b', 'Second'), lines: [2, 3] }]}
+      />
+    )
+    expect(screen.getByText('Edited')).toBeInTheDocument()
+    expect(screen.getByText('Second')).toBe(unchanged)
+    // Lines shifted by the edit are still updated for scroll sync
+    expect(unchanged.closest('[data-source-line]')).toHaveAttribute('data-source-line', '3')
+  })
+
+  it('locates the source of a double-clicked element and highlights the active line', () => {
+    const onLocateSource = vi.fn()
+    const blocks: PreviewBlock[] = [
+      {
+        key: 'list',
+        lines: [4, 7],
+        segments: [
+          {
+            type: 'html',
+            content: '<ul><li data-line-offset="0">One</li><li data-line-offset="2">Two</li></ul>',
+          },
+        ],
+      },
+    ]
+    const { rerender } = render(
+      <PreviewPane htmlContent="" blocks={blocks} onLocateSource={onLocateSource} />
+    )
+
+    fireEvent.doubleClick(screen.getByText('Two'))
+    expect(onLocateSource).toHaveBeenCalledWith(7, '')
+
+    rerender(
+      <PreviewPane htmlContent="" blocks={blocks} onLocateSource={onLocateSource} activeLine={5} />
+    )
+    expect(screen.getByText('One')).toHaveClass('source-line-active')
+  })
+
+  it('locates the source line of a diagram syntax error', () => {
+    const onLocateSource = vi.fn()
+    const blocks: PreviewBlock[] = [
+      {
+        key: 'diagram',
+        lines: [2, 6],
+        segments: [
+          { type: 'html', content: '<button data-diagram-error-line="2">Line 2</button>' },
+        ],
+      },
+    ]
+    render(<PreviewPane htmlContent="" blocks={blocks} onLocateSource={onLocateSource} />)
+
+    fireEvent.click(screen.getByText('Line 2'))
+    expect(onLocateSource).toHaveBeenCalledWith(5, '')
+  })
+
+  it('copies a single code block from its copy button', async () => {
+    vi.mocked(copyToClipboard).mockResolvedValueOnce()
+    render(
+      <PreviewPane
+        htmlContent={
+          '<div class="code-block"><pre><code><span class="code-line">let a</span>\n</code></pre>' +
+          '<button aria-label="Copy code" data-copy-code></button></div>'
+        }
+      />
+    )
+
+    fireEvent.click(screen.getByLabelText('Copy code'))
+
+    await waitFor(() => {
+      expect(copyToClipboard).toHaveBeenCalledWith('let a\n')
+      expect(toast).toHaveBeenCalledWith({ description: 'Code copied to clipboard' })
+    })
+  })
+
   it('calls copyToClipboard when copy button is clicked', async () => {
     render(<PreviewPane htmlContent={htmlContent} />)
 
@@ -1,19 +1,89 @@
 import 'github-markdown-css/github-markdown.css'
-import { useState, useMemo, type ReactElement, forwardRef } from 'react'
+import 'katex/dist/katex.min.css'
+import {
+  useState,
+  useMemo,
+  useRef,
+  useEffect,
+  type ReactElement,
+  type MouseEvent,
+  forwardRef,
+  memo,
+  type CSSProperties,
+} from 'react'
 import { Copy, Check, Maximize2, Minimize2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 import { toast } from '@/hooks/useToast'
-import { copyToClipboard, stripHtml } from '@/utils/clipboard'
-import { splitHtmlAtMermaid } from '@/utils/splitHtmlAtMermaid'
+import { copyToClipboard, prepareClipboardHtml, stripHtml } from '@/utils/clipboard'
+import { splitHtmlAtDiagrams } from '@/utils/splitHtmlAtDiagrams'
+import { getElementSourceLine, highlightSourceLine } from '@/utils/sourceLines'
 import { MermaidDiagram } from '@/components/MermaidDiagram'
+import { GraphvizDiagram } from '@/components/GraphvizDiagram'
+import { FrontMatterPanel } from '@/components/FrontMatterPanel'
+import { TaskProgressBar } from '@/components/TaskProgressBar'
+import type { FrontMatter } from '@/utils/frontMatter'
+import type { TaskProgress } from '@/utils/markdownTasks'
 import type { MermaidColorMode } from '@/utils/mermaidTheme'
+import type { PreviewBlock } from '@/utils/markdownRender'
+
+// Documents with this many blocks let the browser skip layout and paint of off-screen blocks
+const VIRTUALIZE_MIN_BLOCKS = 200
+const VIRTUALIZED_BLOCK_STYLE: CSSProperties = {
+  contentVisibility: 'auto',
+  containIntrinsicSize: 'auto 80px',
+}
+
+interface PreviewBlockContentProps {
+  block: PreviewBlock
+  colorMode: MermaidColorMode
+}
+
+/**
+ * Renders the content of one preview block. Blocks with the same key have the same
+ * content, so an unchanged block (and any diagram in it) is skipped when the
+ * document re-renders.
+ */
+const PreviewBlockContent = memo(
+  ({ block, colorMode }: PreviewBlockContentProps): ReactElement => (
+    <>
+      {block.segments.map((segment, i) =>
+        segment.type === 'html' ? (
+          <div key={i} dangerouslySetInnerHTML={{ __html: segment.content }} />
+        ) : segment.type === 'graphviz' ? (
+          <GraphvizDiagram key={i} code={segment.code} colorMode={colorMode} />
+        ) : (
+          <MermaidDiagram key={i} code={segment.code} colorMode={colorMode} />
+        )
+      )}
+    </>
+  ),
+  (prev, next) => prev.block.key === next.block.key && prev.colorMode === next.colorMode
+)
+
+PreviewBlockContent.displayName = 'PreviewBlockContent'
 
 interface PreviewPaneProps {
   htmlContent: string
+  /** `htmlContent` as top-level blocks, patched individually; rendered as one block when omitted */
+  blocks?: PreviewBlock[]
+  /** Marks the preview busy while a newer render of the document is pending */
+  isRendering?: boolean
   viewMode?: 'editor' | 'preview' | 'split'
   onToggleLayout?: () => void
   colorMode?: MermaidColorMode
+  /** Front matter parsed from the document, shown as a collapsible metadata panel */
+  frontMatter?: FrontMatter | null
+  /** Called with the target id when an in-page `#anchor` link is clicked */
+  onNavigateAnchor?: (id: string) => void
+  /** Called with the 1-based source line of a clicked task checkbox; without it tasks are read-only */
+  onToggleTask?: (line: number) => void
+  /** Shown as a done/total summary when the document has task list items */
+  taskProgress?: TaskProgress
+  /** Called with the 1-based source line and selected text of a double-clicked element */
+  onLocateSource?: (line: number, text: string) => void
+  /** 1-based source line of the editor cursor; its block is highlighted */
+  activeLine?: number | null
 }
 
 /**
@@ -21,15 +91,44 @@ interface PreviewPaneProps {
  * Displays styled HTML with GitHub markdown styles and copy-to-clipboard functionality.
  */
 export const PreviewPane = forwardRef<HTMLDivElement, PreviewPaneProps>(
-  ({ htmlContent, viewMode, onToggleLayout, colorMode = 'light' }, ref): ReactElement => {
+  (
+    {
+      htmlContent,
+      blocks: renderedBlocks,
+      isRendering = false,
+      viewMode,
+      onToggleLayout,
+      colorMode = 'light',
+      frontMatter,
+      onNavigateAnchor,
+      onToggleTask,
+      taskProgress,
+      onLocateSource,
+      activeLine = null,
+    },
+    ref
+  ): ReactElement => {
     const [copied, setCopied] = useState(false)
+    const bodyRef = useRef<HTMLDivElement>(null)
+
+    const blocks = useMemo(
+      (): PreviewBlock[] =>
+        renderedBlocks ?? [
+          { key: 'document', lines: null, segments: splitHtmlAtDiagrams(htmlContent) },
+        ],
+      [renderedBlocks, htmlContent]
+    )
+    const virtualize = blocks.length >= VIRTUALIZE_MIN_BLOCKS
 
-    const segments = useMemo(() => splitHtmlAtMermaid(htmlContent), [htmlContent])
+    // Re-applied after every render since a re-rendered block loses the class
+    useEffect(() => {
+      if (bodyRef.current) highlightSourceLine(bodyRef.current, activeLine)
+    }, [activeLine, blocks])
 
     const handleCopy = async (): Promise<void> => {
       try {
         const plainText = stripHtml(htmlContent)
-        await copyToClipboard(plainText, htmlContent)
+        await copyToClipboard(plainText, prepareClipboardHtml(htmlContent))
 
         setCopied(true)
         toast({ description: 'Rich text copied to clipboard' })
@@ -42,9 +141,69 @@ export const PreviewPane = forwardRef<HTMLDivElement, PreviewPaneProps>(
       }
     }
 
+    const handleClick = (e: MouseEvent<HTMLDivElement>): void => {
+      // The checkbox re-renders from the source, so never let the browser flip it
+      const checkbox = (e.target as Element).closest<HTMLInputElement>(
+        'input.task-list-item-checkbox'
+      )
+      if (checkbox) {
+        e.preventDefault()
+        const line = getElementSourceLine(checkbox)
+        if (line !== null) onToggleTask?.(line)
+        return
+      }
+
+      // A diagram's syntax error links to its line inside the fence, which starts a line
+      // after the block's opening fence
+      const diagramError = (e.target as Element).closest<HTMLElement>('[data-diagram-error-line]')
+      if (diagramError) {
+        const fenceLine = getElementSourceLine(diagramError)
+        if (fenceLine !== null) {
+          onLocateSource?.(fenceLine + Number(diagramError.dataset.diagramErrorLine), '')
+        }
+        return
+      }
+
+      const copyButton = (e.target as Element).closest('[data-copy-code]')
+      if (copyButton) {
+        const code = copyButton.parentElement?.querySelector('code')?.textContent ?? ''
+        copyToClipboard(code).then(
+          () => toast({ description: 'Code copied to clipboard' }),
+          () => toast({ description: 'Failed to copy to clipboard', variant: 'destructive' })
+        )
+        return
+      }
+
+      // In-page links would otherwise replace the URL hash that stores the document
+      const link = (e.target as Element).closest('a[href^="#"]')
+      if (!link) return
+
+      e.preventDefault()
+      let id = link.getAttribute('href')!.slice(1)
+      try {
+        id = decodeURIComponent(id)
+      } catch {
+        // Malformed escapes such as `#100%` are used as written
+      }
+      if (id) onNavigateAnchor?.(id)
+    }
+
+    const handleDoubleClick = (e: MouseEvent<HTMLDivElement>): void => {
+      if (!onLocateSource) return
+      const line = getElementSourceLine(e.target as Element)
+      if (line === null) return
+      // Double-clicking selects a word, which pins down the column in the source
+      onLocateSource(line, window.getSelection()?.toString() ?? '')
+    }
+
     return (
-      <div ref={ref} className="h-full overflow-auto">
-        <div className="relative group markdown-body p-6 pt-0 bg-transparent h-full">
+      <div ref={ref} className="h-full overflow-auto" aria-busy={isRendering}>
+        <div
+          ref={bodyRef}
+          className="relative group markdown-body p-6 pt-0 bg-transparent h-full"
+          onClick={handleClick}
+          onDoubleClick={handleDoubleClick}
+        >
           <div className="absolute top-4 right-4 z-10 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
             {onToggleLayout && viewMode && (
               <Tooltip>
@@ -91,13 +250,19 @@ export const PreviewPane = forwardRef<HTMLDivElement, PreviewPaneProps>(
             </Tooltip>
           </div>
 
-          {segments.map((segment, i) =>
-            segment.type === 'html' ? (
-              <div key={i} dangerouslySetInnerHTML={{ __html: segment.content }} />
-            ) : (
-              <MermaidDiagram key={i} code={segment.code} colorMode={colorMode} />
-            )
-          )}
+          {frontMatter && <FrontMatterPanel frontMatter={frontMatter} />}
+          {taskProgress && taskProgress.total > 0 && <TaskProgressBar progress={taskProgress} />}
+
+          {blocks.map((block) => (
+            // The first source line anchors scroll sync; it changes without the content
+            <div
+              key={block.key}
+              data-source-line={block.lines ? block.lines[0] + 1 : undefined}
+              style={virtualize ? VIRTUALIZED_BLOCK_STYLE : undefined}
+            >
+              <PreviewBlockContent block={block} colorMode={colorMode} />
+            </div>
+          ))}
         </div>
       </div>
     )
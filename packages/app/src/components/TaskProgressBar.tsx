@@ -0,0 +1,33 @@
+import type { ReactElement } from 'react'
+import type { TaskProgress } from '@/utils/markdownTasks'
+
+interface TaskProgressBarProps {
+  progress: TaskProgress
+}
+
+/**
+ * Summary of completed task list items shown above the preview
+ * @param props - Component props
+ * @returns Task progress component
+ */
+export function TaskProgressBar({ progress }: TaskProgressBarProps): ReactElement {
+  const percentage = Math.round((progress.done / progress.total) * 100)
+
+  return (
+    <div className="mt-6 mb-4 flex items-center gap-3 text-sm text-muted-foreground">
+      <span className="shrink-0">
+        {progress.done}/{progress.total} tasks done
+      </span>
+      <div
+        role="progressbar"
+        aria-label="Task progress"
+        aria-valuemin={0}
+        aria-valuemax={progress.total}
+        aria-valuenow={progress.done}
+        className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted"
+      >
+        <div className="h-full bg-primary transition-all" style={{ width: `${percentage}%` }} />
+      </div>
+    </div>
+  )
+}
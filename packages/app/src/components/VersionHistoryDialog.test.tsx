@@ -0,0 +1,78 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { VersionHistoryDialog } from './VersionHistoryDialog'
+import type { Snapshot } from '@/utils/snapshots'
+
+const snapshots: Snapshot[] = [
+  {
+    id: 'new',
+    documentKey: 'doc.md',
+    name: 'doc.md',
+    content: '# Title\nsecond draft',
+    kind: 'manual',
+    label: 'Second draft',
+    createdAt: 2,
+  },
+  {
+    id: 'old',
+    documentKey: 'doc.md',
+    name: 'doc.md',
+    content: '# Title\nfirst draft',
+    kind: 'auto',
+    createdAt: 1,
+  },
+]
+
+const renderDialog = (overrides: Partial<Parameters<typeof VersionHistoryDialog>[0]> = {}) =>
+  render(
+    <VersionHistoryDialog
+      open={true}
+      onOpenChange={() => {}}
+      snapshots={snapshots}
+      currentContent={'# Title\ncurrent'}
+      onCreateCheckpoint={() => {}}
+      onRestore={() => {}}
+      onDelete={() => {}}
+      {...overrides}
+    />
+  )
+
+describe('VersionHistoryDialog', () => {
+  it('lists checkpoints and automatic snapshots', () => {
+    renderDialog()
+    expect(screen.getByText('Second draft')).toBeInTheDocument()
+    expect(screen.getByText('Auto snapshot')).toBeInTheDocument()
+  })
+
+  it('diffs the selected snapshot against the current content', () => {
+    renderDialog()
+    const diff = screen.getByTestId('snapshot-diff')
+    expect(diff).toHaveTextContent('- second draft')
+    expect(diff).toHaveTextContent('+ current')
+
+    fireEvent.click(screen.getByText('Auto snapshot'))
+    expect(diff).toHaveTextContent('- first draft')
+  })
+
+  it('restores the selected snapshot', () => {
+    const onRestore = vi.fn()
+    const onOpenChange = vi.fn()
+    renderDialog({ onRestore, onOpenChange })
+
+    fireEvent.click(screen.getByText('Auto snapshot'))
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }))
+
+    expect(onRestore).toHaveBeenCalledWith(snapshots[1])
+    expect(onOpenChange).toHaveBeenCalledWith(false)
+  })
+
+  it('creates a named checkpoint', () => {
+    const onCreateCheckpoint = vi.fn()
+    renderDialog({ onCreateCheckpoint })
+
+    fireEvent.change(screen.getByLabelText('Checkpoint name'), { target: { value: 'Before edit' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Save Checkpoint' }))
+
+    expect(onCreateCheckpoint).toHaveBeenCalledWith('Before edit')
+  })
+})
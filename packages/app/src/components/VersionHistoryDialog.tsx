@@ -0,0 +1,184 @@
+import { useState, useMemo, type ReactElement, type FormEvent } from 'react'
+import { Bookmark, Clock, RotateCcw, Trash2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/utils/classnames'
+import { diffLines, getDiffStats } from '@/utils/lineDiff'
+import type { Snapshot } from '@/utils/snapshots'
+
+interface VersionHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  snapshots: Snapshot[]
+  currentContent: string
+  onCreateCheckpoint: (label: string) => void
+  onRestore: (snapshot: Snapshot) => void
+  onDelete: (id: string) => void
+}
+
+/**
+ * Version history panel listing snapshots with a diff against the current content
+ * @param props - Component props
+ * @returns Version history dialog component
+ */
+export function VersionHistoryDialog({
+  open,
+  onOpenChange,
+  snapshots,
+  currentContent,
+  onCreateCheckpoint,
+  onRestore,
+  onDelete,
+}: VersionHistoryDialogProps): ReactElement {
+  const [label, setLabel] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const selected = snapshots.find((s) => s.id === selectedId) ?? snapshots[0] ?? null
+
+  const diff = useMemo(
+    () => (selected ? diffLines(selected.content, currentContent) : []),
+    [selected, currentContent]
+  )
+  const stats = getDiffStats(diff)
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (label.trim()) {
+      onCreateCheckpoint(label.trim())
+      setLabel('')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Snapshots are saved automatically in this browser. Compare any snapshot with the current
+            document and restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Checkpoint name"
+            autoComplete="off"
+            aria-label="Checkpoint name"
+          />
+          <Button type="submit" disabled={!label.trim()}>
+            <Bookmark className="size-4" />
+            Save Checkpoint
+          </Button>
+        </form>
+
+        <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4 min-h-0">
+          <ScrollArea className="h-80 border border-border rounded-md">
+            {snapshots.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8 px-4">
+                No snapshots yet.
+              </p>
+            ) : (
+              <ul className="p-1 space-y-1">
+                {snapshots.map((snapshot) => (
+                  <li key={snapshot.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(snapshot.id)}
+                      className={cn(
+                        'w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left hover:bg-accent',
+                        selected?.id === snapshot.id && 'bg-accent'
+                      )}
+                    >
+                      {snapshot.kind === 'manual' ? (
+                        <Bookmark className="size-4 mt-0.5 shrink-0" />
+                      ) : (
+                        <Clock className="size-4 mt-0.5 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="min-w-0">
+                        <span className="block truncate text-sm font-medium">
+                          {snapshot.label ?? 'Auto snapshot'}
+                        </span>
+                        <span className="block truncate text-xs text-muted-foreground">
+                          {new Date(snapshot.createdAt).toLocaleString()}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+
+          <div className="flex flex-col gap-2 min-w-0">
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>
+                {selected ? (
+                  <>
+                    Changes since snapshot: <span className="text-green-600">+{stats.added}</span>{' '}
+                    <span className="text-destructive">-{stats.removed}</span>
+                  </>
+                ) : (
+                  'Select a snapshot to compare'
+                )}
+              </span>
+              {selected && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => {
+                      onDelete(selected.id)
+                      setSelectedId(null)
+                    }}
+                  >
+                    <Trash2 className="size-4" />
+                    Delete
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      onRestore(selected)
+                      onOpenChange(false)
+                    }}
+                  >
+                    <RotateCcw className="size-4" />
+                    Restore
+                  </Button>
+                </div>
+              )}
+            </div>
+            <ScrollArea className="h-72 border border-border rounded-md">
+              <pre className="text-xs font-mono p-2" data-testid="snapshot-diff">
+                {diff.map((line, i) => (
+                  <div
+                    key={i}
+                    className={cn(
+                      'whitespace-pre-wrap break-all px-1',
+                      line.type === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+                      line.type === 'removed' && 'bg-red-500/15 text-red-700 dark:text-red-400'
+                    )}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -71,6 +71,12 @@ vi.mock('@monaco-editor/react', () => {
             KeyCode: { KeyB: 32, KeyI: 39, KeyK: 41, KeyE: 35, Enter: 13 },
             editor: {
               setModelMarkers: vi.fn(),
+              registerCommand: vi.fn(),
+            },
+            languages: {
+              registerCompletionItemProvider: vi.fn(),
+              registerCodeLensProvider: vi.fn(),
+              CompletionItemKind: { Text: 18 },
             },
           }
         )
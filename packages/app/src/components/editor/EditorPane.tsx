@@ -17,8 +17,11 @@ import { registerEditorKeybindings } from './hooks/useEditorKeybindings'
 import { useEditorVim } from './hooks/useEditorVim'
 import { useEditorSpellCheck } from './hooks/useEditorSpellCheck'
 import { useEditorHandle } from './hooks/useEditorHandle'
+import { useEditorMermaidMarkers } from './hooks/useEditorMermaidMarkers'
 import { buildEditorOptions } from './editorOptions'
 import { countWords } from './countWords'
+import { registerEmojiCompletion } from './emojiCompletion'
+import { registerCsvTableLens } from './csvTableLens'
 
 interface EditorPaneProps {
   value: string
@@ -65,6 +68,8 @@ export interface EditorPaneHandle {
   } | null
   /** Get content of a specific line */
   getLineContent: (lineNumber: number) => string | undefined
+  /** Replace the content of a specific line without moving the cursor or focus */
+  setLineContent: (lineNumber: number, text: string) => void
   /** Set the cursor selection */
   setSelection: (range: {
     startLineNumber: number
@@ -72,6 +77,10 @@ export interface EditorPaneHandle {
     endLineNumber: number
     endColumn: number
   }) => void
+  /** Move the cursor to the start of a line and scroll it to the top of the editor */
+  revealLine: (lineNumber: number) => void
+  /** Move the cursor to a position, scrolling it into view; waits for Monaco if not yet mounted */
+  revealPosition: (position: { lineNumber: number; column: number }) => void
   /** Get current scroll top */
   getScrollTop: () => number
   /** Set scroll top */
@@ -82,6 +91,8 @@ export interface EditorPaneHandle {
   getClientHeight: () => number
   /** Register a scroll listener */
   onScroll: (callback: () => void) => { dispose: () => void }
+  /** Get the offset of a line from the top of the content, in the same units as scroll top */
+  getTopForLine: (lineNumber: number) => number
   /** Format the table at the current cursor position */
   formatTable: () => void
   /** Focus the editor */
@@ -124,6 +135,7 @@ export const EditorPane = forwardRef<EditorPaneHandle, EditorPaneProps>(
     const pendingScrollCallbacks = useRef<
       Array<{ callback: () => void; resolve: (disposable: { dispose: () => void }) => void }>
     >([])
+    const pendingReveal = useRef<{ lineNumber: number; column: number } | null>(null)
     const [copied, setCopied] = useState(false)
 
     const checkIsInTable = (model: editor.ITextModel, lineNumber: number): boolean => {
@@ -144,6 +156,14 @@ export const EditorPane = forwardRef<EditorPaneHandle, EditorPaneProps>(
       }
       pendingScrollCallbacks.current = []
 
+      // Apply a cursor position requested before Monaco mounted
+      if (pendingReveal.current) {
+        editor.setPosition(pendingReveal.current)
+        editor.revealPositionInCenter(pendingReveal.current)
+        editor.focus()
+        pendingReveal.current = null
+      }
+
       // Initialize vim mode immediately after editor mounts if vimMode is enabled
       if (vimMode) {
         setupVim()
@@ -167,6 +187,8 @@ export const EditorPane = forwardRef<EditorPaneHandle, EditorPaneProps>(
       }
 
       registerEditorKeybindings({ editor, onFormat, onCodeBlock })
+      registerEmojiCompletion(monacoInstance)
+      registerCsvTableLens(monacoInstance)
 
       // Handle Enter key for auto-continuation of lists and quotes
       editor.onKeyDown((e) => {
@@ -212,7 +234,8 @@ export const EditorPane = forwardRef<EditorPaneHandle, EditorPaneProps>(
       onSpellCheckChange,
       editorInstance,
     })
-    useEditorHandle({ ref, editorRef, pendingScrollCallbacks })
+    useEditorMermaidMarkers({ monacoRef, editorInstance })
+    useEditorHandle({ ref, editorRef, pendingScrollCallbacks, pendingReveal })
 
     const handleCopy = async (): Promise<void> => {
       try {
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest'
+import type * as Monaco from 'monaco-editor'
+import { getConvertibleCsvFences, registerCsvTableLens } from './csvTableLens'
+
+describe('getConvertibleCsvFences', () => {
+  it('finds top-level csv and tsv fences', () => {
+    const markdown = '# Data\n\n```csv\na,b\n```\n\n```js\nx\n```\n\n~~~tsv\na\tb\n~~~\n'
+    expect(getConvertibleCsvFences(markdown).map((fence) => [fence.language, fence.line])).toEqual([
+      ['csv', 4],
+      ['tsv', 12],
+    ])
+  })
+
+  it('skips fences nested in lists and quotes', () => {
+    expect(getConvertibleCsvFences('- item\n\n  ```csv\n  a,b\n  ```\n')).toEqual([])
+    expect(getConvertibleCsvFences('> ```csv\n> a,b\n> ```\n')).toEqual([])
+  })
+})
+
+describe('registerCsvTableLens', () => {
+  const createMonaco = () =>
+    ({
+      // Constructed with `new`, so it can't be an arrow function
+      Range: vi.fn(function (...args: number[]) {
+        return args
+      }),
+      Uri: { parse: vi.fn((uri: string) => uri) },
+      editor: {
+        registerCommand: vi.fn(),
+        getModel: vi.fn(),
+        getEditors: vi.fn(() => []),
+      },
+      languages: {
+        registerCodeLensProvider: vi.fn(),
+      },
+    }) as unknown as typeof Monaco
+
+  const markdown = 'Intro\n```csv\nName,Score\nAda,3\n```\nOutro'
+
+  it('registers once per Monaco instance', () => {
+    const monaco = createMonaco()
+    registerCsvTableLens(monaco)
+    registerCsvTableLens(monaco)
+    expect(monaco.editor.registerCommand).toHaveBeenCalledTimes(1)
+    expect(monaco.languages.registerCodeLensProvider).toHaveBeenCalledTimes(1)
+  })
+
+  it('offers a lens on the opening fence line', () => {
+    const monaco = createMonaco()
+    registerCsvTableLens(monaco)
+    const provider = vi.mocked(monaco.languages.registerCodeLensProvider).mock.calls[0][1]
+
+    const model = { getValue: () => markdown, uri: { toString: () => 'file:///doc.md' } }
+    const result = provider.provideCodeLenses(
+      model as unknown as Monaco.editor.ITextModel,
+      {} as Monaco.CancellationToken
+    ) as Monaco.languages.CodeLensList
+
+    expect(result.lenses).toHaveLength(1)
+    expect(result.lenses[0].range).toEqual([2, 1, 2, 1])
+    expect(result.lenses[0].command).toMatchObject({
+      title: 'Convert to Markdown table',
+      arguments: ['file:///doc.md', 3],
+    })
+  })
+
+  it('replaces the fence with a Markdown table', () => {
+    const monaco = createMonaco()
+    const model = { getValue: () => markdown, getLineMaxColumn: () => 4 }
+    const editor = { getModel: () => model, executeEdits: vi.fn(), pushUndoStop: vi.fn() }
+    vi.mocked(monaco.editor.getModel).mockReturnValue(model as unknown as Monaco.editor.ITextModel)
+    vi.mocked(monaco.editor.getEditors).mockReturnValue([
+      editor as unknown as Monaco.editor.ICodeEditor,
+    ])
+    registerCsvTableLens(monaco)
+    const command = vi.mocked(monaco.editor.registerCommand).mock.calls[0][1]
+
+    command(null as never, 'file:///doc.md', 3)
+
+    expect(editor.executeEdits).toHaveBeenCalledWith('csv-to-table', [
+      {
+        range: [2, 1, 5, 4],
+        text: '| Name | Score |\n| ---- | ----- |\n| Ada  | 3     |',
+        forceMoveMarkers: true,
+      },
+    ])
+  })
+})
@@ -0,0 +1,73 @@
+import type * as Monaco from 'monaco-editor'
+import { getFencedCode, type FencedCode } from '@/utils/markdown'
+import { CSV_FENCE_LANGUAGES, csvToMarkdownTable } from '@/utils/markdownCsv'
+
+const CONVERT_COMMAND = 'poe.convertCsvFenceToTable'
+
+// Commands and CodeLens providers are global to a Monaco instance, so register once per instance
+const registeredInstances = new WeakSet<typeof Monaco>()
+
+/**
+ * Finds the ```csv and ```tsv fences that can be replaced by a Markdown table. Fences
+ * nested in lists or quotes are skipped, since the table would lose their prefix.
+ *
+ * @param markdown - The document source
+ * @returns Top-level delimited data fences
+ */
+export function getConvertibleCsvFences(markdown: string): FencedCode[] {
+  const lines = markdown.split('\n')
+  return getFencedCode(markdown).filter(
+    (fence) =>
+      CSV_FENCE_LANGUAGES.includes(fence.language) &&
+      /^(`{3,}|~{3,})/.test(lines[fence.line - 2] ?? '')
+  )
+}
+
+/**
+ * Registers a "Convert to Markdown table" CodeLens above every ```csv and ```tsv fence.
+ * Clicking it replaces the whole fence with the output of `formatMarkdownTable`.
+ *
+ * @param monacoInstance - The Monaco namespace from the editor mount callback
+ * @returns void
+ */
+export function registerCsvTableLens(monacoInstance: typeof Monaco): void {
+  if (registeredInstances.has(monacoInstance)) return
+  registeredInstances.add(monacoInstance)
+
+  monacoInstance.editor.registerCommand(CONVERT_COMMAND, (_accessor, uri: string, line: number) => {
+    const model = monacoInstance.editor.getModel(monacoInstance.Uri.parse(uri))
+    // Look the fence up again in case the document changed since the lens was drawn
+    const fence = model && getConvertibleCsvFences(model.getValue()).find((f) => f.line === line)
+    const table = fence && csvToMarkdownTable(fence.code, fence.language)
+    if (!model || !fence || !table) return
+
+    const editor = monacoInstance.editor.getEditors().find((e) => e.getModel() === model)
+    const range = new monacoInstance.Range(
+      fence.line - 1,
+      1,
+      fence.endLine,
+      model.getLineMaxColumn(fence.endLine)
+    )
+    if (editor) {
+      editor.pushUndoStop()
+      editor.executeEdits('csv-to-table', [{ range, text: table, forceMoveMarkers: true }])
+      editor.pushUndoStop()
+    } else {
+      model.pushEditOperations([], [{ range, text: table }], () => null)
+    }
+  })
+
+  monacoInstance.languages.registerCodeLensProvider('markdown', {
+    provideCodeLenses: (model) => ({
+      lenses: getConvertibleCsvFences(model.getValue()).map((fence) => ({
+        range: new monacoInstance.Range(fence.line - 1, 1, fence.line - 1, 1),
+        command: {
+          id: CONVERT_COMMAND,
+          title: 'Convert to Markdown table',
+          arguments: [model.uri.toString(), fence.line],
+        },
+      })),
+      dispose: () => {},
+    }),
+  })
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest'
+import type * as Monaco from 'monaco-editor'
+import { getEmojiShortcodeQuery, registerEmojiCompletion } from './emojiCompletion'
+
+describe('getEmojiShortcodeQuery', () => {
+  it('returns the partial name after a colon', () => {
+    expect(getEmojiShortcodeQuery(':ro')).toBe('ro')
+    expect(getEmojiShortcodeQuery('Launch :thumbs')).toBe('thumbs')
+    expect(getEmojiShortcodeQuery('Launch :')).toBe('')
+  })
+
+  it('ignores colons attached to words', () => {
+    expect(getEmojiShortcodeQuery('Note:')).toBeNull()
+    expect(getEmojiShortcodeQuery('https://example')).toBeNull()
+    expect(getEmojiShortcodeQuery(':rocket: done')).toBeNull()
+  })
+})
+
+describe('registerEmojiCompletion', () => {
+  const createMonaco = () =>
+    ({
+      // Constructed with `new`, so it can't be an arrow function
+      Range: vi.fn(function (...args: number[]) {
+        return args
+      }),
+      languages: {
+        registerCompletionItemProvider: vi.fn(),
+        CompletionItemKind: { Text: 18 },
+      },
+    }) as unknown as typeof Monaco
+
+  it('registers once per Monaco instance', () => {
+    const monaco = createMonaco()
+    registerEmojiCompletion(monaco)
+    registerEmojiCompletion(monaco)
+    expect(monaco.languages.registerCompletionItemProvider).toHaveBeenCalledTimes(1)
+  })
+
+  it('suggests shortcodes with emoji previews', () => {
+    const monaco = createMonaco()
+    registerEmojiCompletion(monaco)
+    const provider = vi.mocked(monaco.languages.registerCompletionItemProvider).mock.calls[0][1]
+
+    const model = { getValueInRange: () => 'Go :ro' }
+    const result = provider.provideCompletionItems(
+      model as unknown as Monaco.editor.ITextModel,
+      { lineNumber: 1, column: 7 } as Monaco.Position,
+      {} as Monaco.languages.CompletionContext,
+      {} as Monaco.CancellationToken
+    ) as Monaco.languages.CompletionList
+
+    const rocket = result.suggestions.find((item) => item.insertText === ':rocket:')
+    expect(rocket?.label).toBe('🚀 :rocket:')
+    expect(rocket?.range).toEqual([1, 4, 1, 7])
+  })
+})
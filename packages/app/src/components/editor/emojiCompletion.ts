@@ -0,0 +1,62 @@
+import type * as Monaco from 'monaco-editor'
+import { EMOJI_SHORTCODES } from '@/utils/emoji'
+
+// Completion providers are global to a Monaco instance, so register once per instance
+const registeredInstances = new WeakSet<typeof Monaco>()
+
+/**
+ * Finds a shortcode being typed at the end of the text, e.g. `:ro` in `Launch :ro`.
+ * The colon must start the line or follow whitespace so `Note:` and URLs don't trigger it.
+ *
+ * @param textBeforeCursor - Line content up to the cursor
+ * @returns The partial name after the colon, or null if no shortcode is being typed
+ */
+export function getEmojiShortcodeQuery(textBeforeCursor: string): string | null {
+  const match = textBeforeCursor.match(/(?:^|\s):([\w+-]*)$/)
+  return match ? match[1] : null
+}
+
+/**
+ * Registers a completion provider that suggests `:shortcode:` emoji for Markdown
+ * as soon as a colon is typed, showing each emoji in the suggestion label.
+ *
+ * @param monacoInstance - The Monaco namespace from the editor mount callback
+ * @returns void
+ */
+export function registerEmojiCompletion(monacoInstance: typeof Monaco): void {
+  if (registeredInstances.has(monacoInstance)) return
+  registeredInstances.add(monacoInstance)
+
+  monacoInstance.languages.registerCompletionItemProvider('markdown', {
+    triggerCharacters: [':'],
+    provideCompletionItems: (model, position) => {
+      const before = model.getValueInRange({
+        startLineNumber: position.lineNumber,
+        startColumn: 1,
+        endLineNumber: position.lineNumber,
+        endColumn: position.column,
+      })
+      const query = getEmojiShortcodeQuery(before)
+      if (query === null) return { suggestions: [] }
+
+      // Replace from the colon so accepting `:ro` inserts `:rocket:`
+      const range = new monacoInstance.Range(
+        position.lineNumber,
+        position.column - query.length - 1,
+        position.lineNumber,
+        position.column
+      )
+
+      return {
+        suggestions: Object.entries(EMOJI_SHORTCODES).map(([name, emoji]) => ({
+          label: `${emoji} :${name}:`,
+          kind: monacoInstance.languages.CompletionItemKind.Text,
+          filterText: `:${name}:`,
+          insertText: `:${name}:`,
+          sortText: name,
+          range,
+        })),
+      }
+    },
+  })
+}
@@ -20,19 +20,21 @@ interface UseEditorHandleParams {
   pendingScrollCallbacks: React.MutableRefObject<
     Array<{ callback: () => void; resolve: (disposable: { dispose: () => void }) => void }>
   >
+  pendingReveal: React.MutableRefObject<{ lineNumber: number; column: number } | null>
 }
 
 /**
  * Exposes imperative editor methods to parent components via ref.
  * Handles text insertion, selection, scrolling, table formatting, and table actions.
  *
- * @param params - Forwarded ref, editor ref, and pending scroll callbacks
+ * @param params - Forwarded ref, editor ref, and pending scroll callbacks and cursor position
  * @returns void
  */
 export function useEditorHandle({
   ref,
   editorRef,
   pendingScrollCallbacks,
+  pendingReveal,
 }: UseEditorHandleParams): void {
   useImperativeHandle(ref, () => ({
     insertText: (text: string): void => {
@@ -113,6 +115,23 @@ export function useEditorHandle({
       return editor.getModel()?.getLineContent(lineNumber)
     },
 
+    setLineContent: (lineNumber, text) => {
+      const editor = editorRef.current
+      const model = editor?.getModel()
+      if (!editor || !model || lineNumber < 1 || lineNumber > model.getLineCount()) return
+      editor.executeEdits('set-line', [
+        {
+          range: {
+            startLineNumber: lineNumber,
+            startColumn: 1,
+            endLineNumber: lineNumber,
+            endColumn: model.getLineMaxColumn(lineNumber),
+          },
+          text,
+        },
+      ])
+    },
+
     setSelection: (range) => {
       const editor = editorRef.current
       if (!editor) return
@@ -120,10 +139,30 @@ export function useEditorHandle({
       editor.focus()
     },
 
+    revealLine: (lineNumber) => {
+      const editor = editorRef.current
+      if (!editor) return
+      editor.setPosition({ lineNumber, column: 1 })
+      editor.revealLineNearTop(lineNumber)
+      editor.focus()
+    },
+
+    revealPosition: (position) => {
+      const editor = editorRef.current
+      if (!editor) {
+        pendingReveal.current = position
+        return
+      }
+      editor.setPosition(position)
+      editor.revealPositionInCenterIfOutsideViewport(position)
+      editor.focus()
+    },
+
     getScrollTop: () => editorRef.current?.getScrollTop() ?? 0,
     setScrollTop: (scrollTop) => editorRef.current?.setScrollTop(scrollTop),
     getScrollHeight: () => editorRef.current?.getScrollHeight() ?? 0,
     getClientHeight: () => editorRef.current?.getLayoutInfo().height ?? 0,
+    getTopForLine: (lineNumber) => editorRef.current?.getTopForLineNumber(lineNumber) ?? 0,
     onScroll: (callback) => {
       if (editorRef.current) {
         const disposable = editorRef.current.onDidScrollChange(() => {
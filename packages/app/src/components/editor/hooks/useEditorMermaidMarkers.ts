@@ -0,0 +1,75 @@
+import { useEffect } from 'react'
+import type { editor } from 'monaco-editor'
+import type * as Monaco from 'monaco-editor'
+import { validateMermaidFences } from '@/utils/mermaidValidation'
+
+const MARKER_OWNER = 'mermaid'
+
+// Wait for a pause in typing so diagrams aren't re-parsed on every keystroke
+const VALIDATE_DELAY_MS = 500
+
+interface UseEditorMermaidMarkersParams {
+  monacoRef: React.RefObject<typeof Monaco | null>
+  editorInstance: editor.IStandaloneCodeEditor | null
+}
+
+/**
+ * Parses the document's Mermaid fences after each pause in typing and shows syntax
+ * errors as editor markers on the offending line, with the message on hover.
+ *
+ * @param params - The Monaco namespace ref and the mounted editor
+ * @returns void
+ */
+export function useEditorMermaidMarkers({
+  monacoRef,
+  editorInstance,
+}: UseEditorMermaidMarkersParams): void {
+  useEffect(() => {
+    const monacoInstance = monacoRef.current
+    const model = editorInstance?.getModel()
+    if (!editorInstance || !monacoInstance || !model) return
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let isDisposed = false
+
+    const validate = async (): Promise<void> => {
+      const versionId = model.getVersionId()
+      try {
+        const errors = await validateMermaidFences(model.getValue())
+        // Drop results for text that has since changed; a newer run is already queued
+        if (isDisposed || model.isDisposed() || model.getVersionId() !== versionId) return
+
+        monacoInstance.editor.setModelMarkers(
+          model,
+          MARKER_OWNER,
+          errors.map((error) => ({
+            severity: monacoInstance.MarkerSeverity.Error,
+            message: error.message,
+            source: 'Mermaid',
+            startLineNumber: error.line,
+            startColumn: error.column,
+            endLineNumber: error.endLine,
+            endColumn: error.endColumn,
+          }))
+        )
+      } catch (e) {
+        console.error('Failed to validate Mermaid diagrams', e)
+      }
+    }
+
+    const schedule = (): void => {
+      clearTimeout(timer)
+      timer = setTimeout(validate, VALIDATE_DELAY_MS)
+    }
+
+    const subscription = editorInstance.onDidChangeModelContent(schedule)
+    schedule()
+
+    return () => {
+      isDisposed = true
+      clearTimeout(timer)
+      subscription.dispose()
+      if (!model.isDisposed()) monacoInstance.editor.setModelMarkers(model, MARKER_OWNER, [])
+    }
+  }, [editorInstance, monacoRef])
+}
@@ -0,0 +1,36 @@
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { useDocumentLibrary } from './useDocumentLibrary'
+import { deleteLibraryDocument, listLibraryDocuments } from '@/utils/documentLibrary'
+import type * as DocumentLibrary from '@/utils/documentLibrary'
+
+vi.mock('@/utils/documentLibrary', async (importOriginal) => ({
+  ...(await importOriginal<typeof DocumentLibrary>()),
+  listLibraryDocuments: vi.fn(),
+  deleteLibraryDocument: vi.fn(),
+}))
+
+describe('useDocumentLibrary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(listLibraryDocuments).mockResolvedValue([])
+  })
+
+  it('reports whether a delete succeeded', async () => {
+    const onError = vi.fn()
+    const { result } = renderHook(() => useDocumentLibrary({ onError }))
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    vi.mocked(deleteLibraryDocument).mockResolvedValueOnce()
+    await act(async () => {
+      expect(await result.current.deleteDocument('a')).toBe(true)
+    })
+    expect(onError).not.toHaveBeenCalled()
+
+    vi.mocked(deleteLibraryDocument).mockRejectedValueOnce(new Error('Quota exceeded'))
+    await act(async () => {
+      expect(await result.current.deleteDocument('a')).toBe(false)
+    })
+    expect(onError).toHaveBeenCalledWith(new Error('Quota exceeded'))
+  })
+})
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { DocumentData } from '@/utils/compression'
+import {
+  createLibraryDocument,
+  deleteLibraryDocument,
+  getDuplicateName,
+  getLibraryDocument,
+  listLibraryDocuments,
+  putLibraryDocument,
+  type LibraryDocument,
+} from '@/utils/documentLibrary'
+
+interface UseDocumentLibraryOptions {
+  onError?: (error: Error) => void
+}
+
+interface UseDocumentLibraryReturn {
+  documents: LibraryDocument[]
+  loading: boolean
+  saveDocument: (data: DocumentData, id?: string | null) => Promise<LibraryDocument | null>
+  duplicateDocument: (id: string) => Promise<LibraryDocument | null>
+  /** Resolves to false when the delete failed; the error goes to `onError` */
+  deleteDocument: (id: string) => Promise<boolean>
+  refresh: () => Promise<void>
+}
+
+/**
+ * Manages the local document library stored in IndexedDB.
+ * @param options - Optional error callback
+ * @returns Library documents and operations to modify them
+ */
+export function useDocumentLibrary(options?: UseDocumentLibraryOptions): UseDocumentLibraryReturn {
+  const { onError } = options ?? {}
+  const [documents, setDocuments] = useState<LibraryDocument[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const reportError = useCallback(
+    (error: unknown) => {
+      onError?.(error instanceof Error ? error : new Error('Document library error'))
+    },
+    [onError]
+  )
+
+  const refresh = useCallback(async (): Promise<void> => {
+    try {
+      setDocuments(await listLibraryDocuments())
+    } catch (error) {
+      reportError(error)
+    } finally {
+      setLoading(false)
+    }
+  }, [reportError])
+
+  useEffect(() => {
+    let cancelled = false
+
+    // Initial load stays silent: a browser without IndexedDB simply has an empty library
+    listLibraryDocuments()
+      .then((stored) => {
+        if (!cancelled) setDocuments(stored)
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const saveDocument = useCallback(
+    async (data: DocumentData, id?: string | null): Promise<LibraryDocument | null> => {
+      try {
+        const existing = id ? await getLibraryDocument(id) : undefined
+        const document = createLibraryDocument(data, existing)
+        await putLibraryDocument(document)
+        await refresh()
+        return document
+      } catch (error) {
+        reportError(error)
+        return null
+      }
+    },
+    [refresh, reportError]
+  )
+
+  const duplicateDocument = useCallback(
+    async (id: string): Promise<LibraryDocument | null> => {
+      try {
+        const original = await getLibraryDocument(id)
+        if (!original) return null
+
+        const copy = createLibraryDocument({
+          content: original.content,
+          name: getDuplicateName(original.name),
+        })
+        await putLibraryDocument(copy)
+        await refresh()
+        return copy
+      } catch (error) {
+        reportError(error)
+        return null
+      }
+    },
+    [refresh, reportError]
+  )
+
+  const deleteDocument = useCallback(
+    async (id: string): Promise<boolean> => {
+      try {
+        await deleteLibraryDocument(id)
+      } catch (error) {
+        reportError(error)
+        return false
+      }
+      await refresh()
+      return true
+    },
+    [refresh, reportError]
+  )
+
+  return {
+    documents,
+    loading,
+    saveDocument,
+    duplicateDocument,
+    deleteDocument,
+    refresh,
+  }
+}
@@ -0,0 +1,52 @@
+import { renderHook, act } from '@testing-library/react'
+import { useEditorPreferences } from './useEditorPreferences'
+import { DEFAULT_MARKDOWN_EXTENSIONS } from '@/utils/markdown'
+import { describe, it, expect, beforeEach } from 'vitest'
+
+describe('useEditorPreferences', () => {
+  const STORAGE_KEY = 'poe-editor-preferences'
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should enable every markdown extension by default', () => {
+    const { result } = renderHook(() => useEditorPreferences())
+    expect(result.current.markdownExtensions).toEqual(DEFAULT_MARKDOWN_EXTENSIONS)
+  })
+
+  it('should toggle and persist a single extension', () => {
+    const { result } = renderHook(() => useEditorPreferences())
+
+    act(() => {
+      result.current.toggleMarkdownExtension('footnotes')
+    })
+
+    expect(result.current.markdownExtensions.footnotes).toBe(false)
+    expect(result.current.markdownExtensions.mark).toBe(true)
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!)
+    expect(stored.markdownExtensions.footnotes).toBe(false)
+  })
+
+  it('should keep inline HTML off until opted in', () => {
+    const { result } = renderHook(() => useEditorPreferences())
+    expect(result.current.markdownExtensions.rawHtml).toBe(false)
+
+    act(() => result.current.toggleMarkdownExtension('rawHtml'))
+    expect(result.current.markdownExtensions.rawHtml).toBe(true)
+  })
+
+  it('should fill in extensions missing from stored preferences', () => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ startEmpty: true, markdownExtensions: { mark: false } })
+    )
+
+    const { result } = renderHook(() => useEditorPreferences())
+    expect(result.current.startEmpty).toBe(true)
+    expect(result.current.markdownExtensions).toEqual({
+      ...DEFAULT_MARKDOWN_EXTENSIONS,
+      mark: false,
+    })
+  })
+})
@@ -1,17 +1,24 @@
 import { useEffect, useState } from 'react'
+import { DEFAULT_MARKDOWN_EXTENSIONS, type MarkdownExtensions } from '@/utils/markdown'
 
 const STORAGE_KEY = 'poe-editor-preferences'
 
 interface EditorPreferences {
   startEmpty: boolean
+  showOutline: boolean
+  markdownExtensions: MarkdownExtensions
 }
 
 const DEFAULT_PREFERENCES: EditorPreferences = {
   startEmpty: false,
+  showOutline: false,
+  markdownExtensions: DEFAULT_MARKDOWN_EXTENSIONS,
 }
 
 interface UseEditorPreferencesReturn extends EditorPreferences {
   toggleStartEmpty: () => void
+  toggleOutline: () => void
+  toggleMarkdownExtension: (name: keyof MarkdownExtensions) => void
 }
 
 /**
@@ -21,7 +28,13 @@ function getInitialPreferences(): EditorPreferences {
   try {
     const stored = localStorage.getItem(STORAGE_KEY)
     if (stored) {
-      return { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) }
+      const parsed = JSON.parse(stored)
+      return {
+        ...DEFAULT_PREFERENCES,
+        ...parsed,
+        // Extensions added in later versions default to on
+        markdownExtensions: { ...DEFAULT_MARKDOWN_EXTENSIONS, ...parsed.markdownExtensions },
+      }
     }
   } catch {
     // localStorage not available or invalid JSON
@@ -43,6 +56,23 @@ export function useEditorPreferences(): UseEditorPreferencesReturn {
     }))
   }
 
+  const toggleOutline = (): void => {
+    setPreferences((current) => ({
+      ...current,
+      showOutline: !current.showOutline,
+    }))
+  }
+
+  const toggleMarkdownExtension = (name: keyof MarkdownExtensions): void => {
+    setPreferences((current) => ({
+      ...current,
+      markdownExtensions: {
+        ...current.markdownExtensions,
+        [name]: !current.markdownExtensions[name],
+      },
+    }))
+  }
+
   // Persist preferences to localStorage whenever they change
   useEffect(() => {
     try {
@@ -55,5 +85,7 @@ export function useEditorPreferences(): UseEditorPreferencesReturn {
   return {
     ...preferences,
     toggleStartEmpty,
+    toggleOutline,
+    toggleMarkdownExtension,
   }
 }
@@ -0,0 +1,90 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { useMarkdownRenderer } from './useMarkdownRenderer'
+import { DEFAULT_MARKDOWN_EXTENSIONS } from '@/utils/markdown'
+import { renderDocument, type MarkdownRenderRequest } from '@/utils/markdownRender'
+
+/** Stands in for the markdown worker, answering only when told to */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onerror: (() => void) | null = null
+  requests: MarkdownRenderRequest[] = []
+  terminate = vi.fn()
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  postMessage(request: MarkdownRenderRequest): void {
+    this.requests.push(request)
+  }
+
+  respond(request: MarkdownRenderRequest): void {
+    this.onmessage?.({
+      data: { id: request.id, rendered: renderDocument(request.markdown, request.extensions) },
+    })
+  }
+}
+
+describe('useMarkdownRenderer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    FakeWorker.instances = []
+  })
+
+  it('renders on the main thread without worker support', () => {
+    const { result, rerender } = renderHook(
+      ({ markdown }) => useMarkdownRenderer(markdown, DEFAULT_MARKDOWN_EXTENSIONS),
+      { initialProps: { markdown: '# One' } }
+    )
+    expect(result.current.html).toContain('One</h1>')
+    expect(result.current.isPending).toBe(false)
+
+    rerender({ markdown: '```mermaid\ngraph TD\n```' })
+    expect(result.current.blocks[0].segments).toEqual([{ type: 'mermaid', code: 'graph TD\n' }])
+  })
+
+  it('keeps the last result until the newest worker render arrives', () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { result, rerender } = renderHook(
+      ({ markdown }) => useMarkdownRenderer(markdown, DEFAULT_MARKDOWN_EXTENSIONS),
+      { initialProps: { markdown: '# One' } }
+    )
+    const worker = FakeWorker.instances[0]
+    expect(result.current.html).toContain('One</h1>')
+    expect(worker.requests).toHaveLength(0)
+
+    rerender({ markdown: '# Two' })
+    rerender({ markdown: '# Three' })
+    expect(result.current.html).toContain('One</h1>')
+    expect(result.current.isPending).toBe(true)
+
+    // The response to a superseded request is ignored
+    const [stale, current] = worker.requests
+    act(() => worker.respond(stale))
+    expect(result.current.html).toContain('One</h1>')
+
+    act(() => worker.respond(current))
+    expect(result.current.html).toContain('Three</h1>')
+    expect(result.current.isPending).toBe(false)
+  })
+
+  it('falls back to the main thread when the worker fails', () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { result, rerender, unmount } = renderHook(
+      ({ markdown }) => useMarkdownRenderer(markdown, DEFAULT_MARKDOWN_EXTENSIONS),
+      { initialProps: { markdown: '# One' } }
+    )
+    const worker = FakeWorker.instances[0]
+
+    rerender({ markdown: '# Two' })
+    act(() => worker.onerror?.())
+    expect(worker.terminate).toHaveBeenCalled()
+    expect(result.current.html).toContain('Two</h1>')
+    expect(result.current.isPending).toBe(false)
+
+    unmount()
+    expect(FakeWorker.instances).toHaveLength(1)
+  })
+})
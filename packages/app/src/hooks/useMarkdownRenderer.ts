@@ -0,0 +1,95 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { MarkdownExtensions } from '@/utils/markdown'
+import {
+  renderDocument,
+  type MarkdownRenderRequest,
+  type MarkdownRenderResponse,
+  type RenderedMarkdown,
+} from '@/utils/markdownRender'
+
+interface RenderedSource {
+  markdown: string
+  extensions: MarkdownExtensions
+  rendered: RenderedMarkdown
+}
+
+interface UseMarkdownRendererReturn extends RenderedMarkdown {
+  /** True while a newer render is in progress and the previous result is shown */
+  isPending: boolean
+}
+
+/**
+ * Starts the markdown worker. Loading failures are reported through its error event.
+ * @returns The worker
+ */
+function createMarkdownWorker(): Worker {
+  return new Worker(new URL('../utils/markdown.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Renders markdown in a Web Worker so highlighting and parsing long documents doesn't
+ * block typing. Keeps showing the last result until the newest render arrives and drops
+ * responses to superseded requests. The first render happens synchronously so the
+ * preview is never blank, and rendering falls back to the main thread without a worker.
+ * @param markdown - The markdown text to render
+ * @param extensions - Optional syntax extensions to enable
+ * @returns Latest rendered HTML and blocks, and whether a newer render is pending
+ */
+export function useMarkdownRenderer(
+  markdown: string,
+  extensions: MarkdownExtensions
+): UseMarkdownRendererReturn {
+  // Workers aren't available in every environment (e.g. tests)
+  const [workerFailed, setWorkerFailed] = useState(typeof Worker === 'undefined')
+  const [latest, setLatest] = useState<RenderedSource>(() => ({
+    markdown,
+    extensions,
+    rendered: renderDocument(markdown, extensions),
+  }))
+
+  const workerRef = useRef<Worker | null>(null)
+  const requestIdRef = useRef(0)
+  // What was last sent to (or rendered for) the worker, to skip redundant requests
+  const requestedRef = useRef({ markdown, extensions })
+
+  useEffect(() => {
+    if (workerFailed) return
+
+    const worker = createMarkdownWorker()
+    worker.onmessage = (event: MessageEvent<MarkdownRenderResponse>): void => {
+      if (event.data.id !== requestIdRef.current) return
+      setLatest({ ...requestedRef.current, rendered: event.data.rendered })
+    }
+    worker.onerror = (): void => setWorkerFailed(true)
+
+    workerRef.current = worker
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [workerFailed])
+
+  useEffect(() => {
+    const worker = workerRef.current
+    if (!worker) return
+
+    const requested = requestedRef.current
+    if (requested.markdown === markdown && requested.extensions === extensions) return
+
+    requestedRef.current = { markdown, extensions }
+    const request: MarkdownRenderRequest = { id: ++requestIdRef.current, markdown, extensions }
+    worker.postMessage(request)
+  }, [markdown, extensions, workerFailed])
+
+  // Without a worker, render on the main thread like before
+  const fallback = useMemo(
+    () => (workerFailed ? renderDocument(markdown, extensions) : null),
+    [workerFailed, markdown, extensions]
+  )
+
+  if (fallback) return { ...fallback, isPending: false }
+  return {
+    ...latest.rendered,
+    isPending: latest.markdown !== markdown || latest.extensions !== extensions,
+  }
+}
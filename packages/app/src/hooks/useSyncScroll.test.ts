@@ -0,0 +1,108 @@
+import { renderHook } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { useSyncScroll } from './useSyncScroll'
+
+/** Editor-like handle with lines 20px tall and a 1000px viewport */
+function createEditorHandle(lineCount: number) {
+  let scrollTop = 0
+  let listener: (() => void) | null = null
+  return {
+    getScrollTop: () => scrollTop,
+    setScrollTop: vi.fn((value: number) => {
+      scrollTop = value
+    }),
+    getScrollHeight: () => lineCount * 20 + 1000,
+    getClientHeight: () => 1000,
+    onScroll: (cb: () => void) => {
+      listener = cb
+      return { dispose: () => (listener = null) }
+    },
+    getTopForLine: (lineNumber: number) => (lineNumber - 1) * 20,
+    scrollTo(value: number) {
+      scrollTop = value
+      listener?.()
+    },
+  }
+}
+
+/** Preview with a 10-line block followed by a 2000px diagram and a final block */
+function createPreview(): HTMLDivElement {
+  const preview = document.createElement('div')
+  preview.innerHTML =
+    '<div data-source-line="1"></div><div data-source-line="11"></div><div data-source-line="14"></div>'
+  Object.defineProperty(preview, 'scrollHeight', { value: 4000 })
+  Object.defineProperty(preview, 'clientHeight', { value: 1000 })
+  preview.getBoundingClientRect = () => ({ top: 0 }) as DOMRect
+  const tops = [0, 200, 2200]
+  preview.querySelectorAll('div').forEach((el, i) => {
+    el.getBoundingClientRect = () => ({ top: tops[i] - preview.scrollTop }) as DOMRect
+  })
+  return preview
+}
+
+describe('useSyncScroll', () => {
+  it('interpolates between source line anchors instead of using the scroll ratio', () => {
+    const editor = createEditorHandle(100)
+    const preview = createPreview()
+    const { result, rerender } = renderHook(
+      ({ enabled }) =>
+        useSyncScroll<ReturnType<typeof createEditorHandle>, HTMLDivElement>({ enabled }),
+      { initialProps: { enabled: false } }
+    )
+    result.current.sourceRef.current = editor
+    result.current.targetRef.current = preview
+    rerender({ enabled: true })
+
+    // Line 11 starts at 200px in the editor and above the diagram in the preview
+    editor.scrollTo(200)
+    expect(preview.scrollTop).toBe(200)
+
+    // Halfway through lines 11-14 is halfway through the diagram
+    editor.scrollTo(230)
+    expect(preview.scrollTop).toBe(1200)
+  })
+
+  it('measures anchors once until the preview content changes', async () => {
+    const editor = createEditorHandle(100)
+    const preview = createPreview()
+    const measure = vi.spyOn(preview, 'querySelectorAll')
+    const { result, rerender } = renderHook(
+      ({ enabled }) =>
+        useSyncScroll<ReturnType<typeof createEditorHandle>, HTMLDivElement>({ enabled }),
+      { initialProps: { enabled: false } }
+    )
+    result.current.sourceRef.current = editor
+    result.current.targetRef.current = preview
+    rerender({ enabled: true })
+
+    editor.scrollTo(200)
+    editor.scrollTo(230)
+    preview.dispatchEvent(new Event('scroll'))
+    const measured = measure.mock.calls.length
+    expect(measured).toBeGreaterThan(0)
+    editor.scrollTo(260)
+    expect(measure).toHaveBeenCalledTimes(measured)
+
+    preview.firstElementChild!.textContent = 'edited'
+    await Promise.resolve()
+    editor.scrollTo(200)
+    expect(measure.mock.calls.length).toBeGreaterThan(measured)
+  })
+
+  it('falls back to the scroll ratio without annotated lines', () => {
+    const editor = createEditorHandle(100)
+    const preview = createPreview()
+    preview.innerHTML = ''
+    const { result, rerender } = renderHook(
+      ({ enabled }) =>
+        useSyncScroll<ReturnType<typeof createEditorHandle>, HTMLDivElement>({ enabled }),
+      { initialProps: { enabled: false } }
+    )
+    result.current.sourceRef.current = editor
+    result.current.targetRef.current = preview
+    rerender({ enabled: true })
+
+    editor.scrollTo(1000)
+    expect(preview.scrollTop).toBe(1500)
+  })
+})
@@ -1,4 +1,10 @@
 import { useEffect, useRef, useCallback, type RefObject } from 'react'
+import {
+  buildScrollAnchors,
+  getSourceLineOffsets,
+  mapScrollPosition,
+  type ScrollAnchor,
+} from '@/utils/scrollSync'
 
 interface ScrollableElement {
   scrollTop: number
@@ -12,6 +18,8 @@ interface ScrollableHandle {
   getScrollHeight: () => number
   getClientHeight: () => number
   onScroll: (cb: () => void) => { dispose: () => void }
+  /** Offset of a 1-based source line from the top of the content, for line-mapped sync */
+  getTopForLine?: (lineNumber: number) => number
 }
 
 interface UseSyncScrollOptions {
@@ -20,26 +28,41 @@ interface UseSyncScrollOptions {
 
 type Scrollable = HTMLElement | ScrollableHandle
 
+type ScrollSide = 'source' | 'target'
+
 /**
  * Synchronizes scroll position between two elements.
- * Maintains scroll percentage ratio to work with elements of different heights.
- * Supports both DOM elements and imperative handles with scroll methods.
+ * When a DOM element marks its blocks with `data-source-line` and the other side can
+ * report where those lines are, positions are interpolated between the matching lines
+ * so tall diagrams and code blocks don't make the panes drift. Otherwise the scroll
+ * percentage ratio is kept. The matching lines are measured once and reused until the
+ * content or size of either pane changes. Supports both DOM elements and imperative
+ * handles with scroll methods.
  *
  * @param options - Configuration object with optional enabled flag
  * @param options.enabled - Whether scroll synchronization is active (default: true)
  * @returns Object containing refs for source and target scrollable elements
  * @returns sourceRef - Ref to assign to the source scrollable element
  * @returns targetRef - Ref to assign to the target scrollable element
+ * @returns suspendSync - Pauses synchronization while both sides are scrolled programmatically
  */
 export function useSyncScroll<S extends Scrollable = Scrollable, T extends Scrollable = Scrollable>(
   options: UseSyncScrollOptions = {}
-): { sourceRef: RefObject<S | null>; targetRef: RefObject<T | null> } {
+): {
+  sourceRef: RefObject<S | null>
+  targetRef: RefObject<T | null>
+  suspendSync: (durationMs?: number) => void
+} {
   const { enabled = true } = options
 
   const sourceRef = useRef<S | null>(null)
   const targetRef = useRef<T | null>(null)
   const isScrollingSource = useRef(false)
   const isScrollingTarget = useRef(false)
+  const suspendedUntil = useRef(0)
+  // Anchors per scrolling side, and the pane sizes they were measured at
+  const anchorCache = useRef<Partial<Record<ScrollSide, ScrollAnchor[] | null>>>({})
+  const anchorCacheSizes = useRef('')
 
   // Type guard to check if element is a scrollable handle
   const isScrollableHandle = useCallback(
@@ -65,6 +88,40 @@ export function useSyncScroll<S extends Scrollable = Scrollable, T extends Scrol
     [isScrollableHandle]
   )
 
+  // Matching offsets of the source lines annotated in whichever side is a DOM element
+  const getAnchors = useCallback(
+    (source: Scrollable, target: Scrollable): ScrollAnchor[] | null => {
+      const lineOffsets = (el: Scrollable, lines: number[]): number[] | null => {
+        if (!isScrollableHandle(el)) {
+          const offsets = getSourceLineOffsets(el)
+          return lines.every((line) => offsets.has(line))
+            ? lines.map((line) => offsets.get(line)!)
+            : null
+        }
+        const getTopForLine = el.getTopForLine
+        return getTopForLine ? lines.map((line) => getTopForLine(line)) : null
+      }
+
+      const annotated = [source, target].find((el) => !isScrollableHandle(el))
+      if (!annotated) return null
+      const lines = [...getSourceLineOffsets(annotated as HTMLElement).keys()].sort((a, b) => a - b)
+      if (lines.length === 0) return null
+
+      const sourceOffsets = lineOffsets(source, lines)
+      const targetOffsets = lineOffsets(target, lines)
+      if (!sourceOffsets || !targetOffsets) return null
+
+      const sourceState = getScroll(source)
+      const targetState = getScroll(target)
+      return buildScrollAnchors(
+        lines.map((_, i): ScrollAnchor => [sourceOffsets[i], targetOffsets[i]]),
+        sourceState.scrollHeight - sourceState.clientHeight,
+        targetState.scrollHeight - targetState.clientHeight
+      )
+    },
+    [getScroll, isScrollableHandle]
+  )
+
   // Helper to normalize scroll setting
   const setScroll = useCallback(
     (el: Scrollable, value: number): void => {
@@ -77,9 +134,27 @@ export function useSyncScroll<S extends Scrollable = Scrollable, T extends Scrol
     [isScrollableHandle]
   )
 
+  // Measuring every annotated element forces a layout, so only do it when the panes change
+  const getCachedAnchors = useCallback(
+    (from: ScrollSide, source: Scrollable, target: Scrollable): ScrollAnchor[] | null => {
+      const [first, second] = from === 'source' ? [source, target] : [target, source]
+      const sizes = [getScroll(first), getScroll(second)]
+        .map((state) => `${state.scrollHeight}:${state.clientHeight}`)
+        .join()
+      if (sizes !== anchorCacheSizes.current) {
+        anchorCache.current = {}
+        anchorCacheSizes.current = sizes
+      }
+      if (!(from in anchorCache.current)) anchorCache.current[from] = getAnchors(source, target)
+      return anchorCache.current[from] ?? null
+    },
+    [getAnchors, getScroll]
+  )
+
   const syncScroll = useCallback(
-    (from: 'source' | 'target') => {
+    (from: ScrollSide) => {
       if (!enabled) return
+      if (Date.now() < suspendedUntil.current) return
 
       const source = from === 'source' ? sourceRef.current : targetRef.current
       const target = from === 'source' ? targetRef.current : sourceRef.current
@@ -92,18 +167,18 @@ export function useSyncScroll<S extends Scrollable = Scrollable, T extends Scrol
 
       const { scrollTop, scrollHeight, clientHeight } = getScroll(source)
 
-      // Calculate scroll percentage
       const maxScroll = scrollHeight - clientHeight
       if (maxScroll <= 0) return
 
-      const scrollPercentage = scrollTop / maxScroll
-
-      // Apply to target
       const targetState = getScroll(target)
       const targetMaxScroll = targetState.scrollHeight - targetState.clientHeight
       if (targetMaxScroll <= 0) return
 
-      const targetScrollTop = scrollPercentage * targetMaxScroll
+      // Interpolate between matching source lines, or fall back to the scroll percentage
+      const anchors = getCachedAnchors(from, source, target)
+      const targetScrollTop = anchors
+        ? mapScrollPosition(anchors, scrollTop)
+        : (scrollTop / maxScroll) * targetMaxScroll
 
       // DELTA CHECK: If the change is insignificant, don't apply it.
       // This is the most reliable way to break infinite loops.
@@ -130,9 +205,14 @@ export function useSyncScroll<S extends Scrollable = Scrollable, T extends Scrol
         }
       }, 50)
     },
-    [enabled, getScroll, setScroll]
+    [enabled, getScroll, setScroll, getCachedAnchors]
   )
 
+  // Jumping to a heading positions each side independently; ratio syncing would undo that
+  const suspendSync = useCallback((durationMs = 150): void => {
+    suspendedUntil.current = Date.now() + durationMs
+  }, [])
+
   useEffect(() => {
     if (!enabled) return
 
@@ -154,14 +234,30 @@ export function useSyncScroll<S extends Scrollable = Scrollable, T extends Scrol
     const cleanupSource = attach(source, () => syncScroll('source'))
     const cleanupTarget = attach(target, () => syncScroll('target'))
 
+    // Re-measure anchors after the rendered content or the pane size changes
+    const invalidateAnchors = (): void => {
+      anchorCache.current = {}
+    }
+    invalidateAnchors()
+    const mutationObserver = new MutationObserver(invalidateAnchors)
+    const resizeObserver = new ResizeObserver(invalidateAnchors)
+    for (const el of [source, target]) {
+      if (isScrollableHandle(el)) continue
+      mutationObserver.observe(el, { childList: true, subtree: true, characterData: true })
+      resizeObserver.observe(el)
+    }
+
     return () => {
       cleanupSource?.()
       cleanupTarget?.()
+      mutationObserver.disconnect()
+      resizeObserver.disconnect()
     }
   }, [enabled, syncScroll, isScrollableHandle])
 
   return {
     sourceRef,
     targetRef,
+    suspendSync,
   }
 }
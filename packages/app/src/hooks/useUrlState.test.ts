@@ -5,7 +5,11 @@ import * as compression from '../utils/compression'
 
 vi.mock('../utils/compression', () => ({
   compressDocumentToHash: vi.fn(),
+  compressDocumentToLegacyHash: vi.fn(() => 'legacy-hash'),
   decompressDocumentFromHash: vi.fn(),
+  compressDocumentToEncryptedHash: vi.fn(),
+  decryptDocumentFromHash: vi.fn(),
+  isEncryptedHash: vi.fn((hash: string) => hash.startsWith('e1:')),
 }))
 
 describe('useUrlState', () => {
@@ -53,6 +57,7 @@ describe('useUrlState', () => {
     expect(compression.compressDocumentToHash).toHaveBeenCalledWith({
       content: 'New Content',
       name: 'untitled.md', // default name
+      id: result.current.documentId,
     })
 
     // Let's spy on replaceState
@@ -75,6 +80,25 @@ describe('useUrlState', () => {
     vi.useRealTimers()
   })
 
+  it('should report hash size against the legacy codec', () => {
+    vi.useFakeTimers()
+    const { result } = renderHook(() => useUrlState())
+    vi.mocked(compression.compressDocumentToHash).mockReturnValue('v2:abc')
+
+    expect(result.current.hashStats).toBeNull()
+
+    act(() => {
+      result.current.setContent('Content')
+    })
+
+    act(() => {
+      vi.advanceTimersByTime(500)
+    })
+
+    expect(result.current.hashStats).toEqual({ length: 6, legacyLength: 11 })
+    vi.useRealTimers()
+  })
+
   it('should handle decompression errors gracefully', () => {
     window.location.hash = '#garbage'
     vi.mocked(compression.decompressDocumentFromHash).mockImplementation(() => {
@@ -88,6 +112,138 @@ describe('useUrlState', () => {
     expect(onError).toHaveBeenCalled()
   })
 
+  it('should stay locked on an encrypted hash until the passphrase is entered', async () => {
+    window.location.hash = '#e1:sealed'
+    // Let jsdom dispatch the hashchange before the hook subscribes
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    vi.mocked(compression.decryptDocumentFromHash).mockImplementation(async (_hash, passphrase) =>
+      passphrase === 'open sesame' ? { content: '# Secret', name: 'secret.md' } : null
+    )
+
+    const { result } = renderHook(() => useUrlState({ defaultContent: 'Hello' }))
+    expect(result.current.isLocked).toBe(true)
+    expect(result.current.content).toBe('')
+    expect(compression.decompressDocumentFromHash).not.toHaveBeenCalled()
+
+    let unlocked = true
+    await act(async () => {
+      unlocked = await result.current.unlock('wrong')
+    })
+    expect(unlocked).toBe(false)
+    expect(result.current.isLocked).toBe(true)
+
+    await act(async () => {
+      unlocked = await result.current.unlock('open sesame')
+    })
+    expect(unlocked).toBe(true)
+    expect(result.current.isLocked).toBe(false)
+    expect(result.current.content).toBe('# Secret')
+    expect(result.current.documentName).toBe('secret.md')
+  })
+
+  it('should keep saving an unlocked document encrypted', async () => {
+    window.location.hash = '#e1:sealed'
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    vi.useFakeTimers()
+    vi.mocked(compression.decryptDocumentFromHash).mockResolvedValue({ content: 'Secret' })
+    vi.mocked(compression.compressDocumentToEncryptedHash).mockResolvedValue('e1:resealed')
+    const replaceStateSpy = vi.spyOn(window.history, 'replaceState')
+
+    const { result } = renderHook(() => useUrlState())
+    expect(result.current.isEncrypted).toBe(false)
+    await act(async () => {
+      await result.current.unlock('open sesame')
+    })
+    expect(result.current.isEncrypted).toBe(true)
+
+    act(() => {
+      result.current.setContent('Secret, edited')
+    })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(500)
+    })
+
+    expect(compression.compressDocumentToHash).not.toHaveBeenCalled()
+    expect(compression.compressDocumentToEncryptedHash).toHaveBeenCalledWith(
+      { content: 'Secret, edited', name: 'untitled.md', id: result.current.documentId },
+      'open sesame'
+    )
+    const url = replaceStateSpy.mock.calls[replaceStateSpy.mock.calls.length - 1][2]
+    expect(url).toContain('/encrypted-document/')
+    expect(url).toContain('#e1:resealed')
+
+    replaceStateSpy.mockRestore()
+    vi.useRealTimers()
+  })
+
+  it('should keep the document id from the link until a new one is set', () => {
+    window.location.hash = '#with-id'
+    vi.mocked(compression.decompressDocumentFromHash).mockReturnValue({
+      content: 'Notes',
+      name: 'notes.md',
+      id: 'doc-1',
+    })
+
+    const { result } = renderHook(() => useUrlState())
+    expect(result.current.documentId).toBe('doc-1')
+
+    vi.useFakeTimers()
+    act(() => {
+      result.current.setDocumentId('doc-2')
+    })
+    act(() => {
+      vi.advanceTimersByTime(500)
+    })
+    expect(result.current.documentId).toBe('doc-2')
+    expect(compression.compressDocumentToHash).toHaveBeenLastCalledWith({
+      content: 'Notes',
+      name: 'notes.md',
+      id: 'doc-2',
+    })
+    vi.useRealTimers()
+  })
+
+  it('should ignore edits to a read-only link until it is made editable', () => {
+    window.location.hash = '#read-only'
+    vi.mocked(compression.decompressDocumentFromHash).mockReturnValue({
+      content: 'Shared',
+      name: 'report.md',
+      readOnly: true,
+      id: 'original',
+    })
+    vi.mocked(compression.compressDocumentToHash).mockReturnValue('v2:copy')
+
+    const { result } = renderHook(() => useUrlState())
+    expect(result.current.readOnly).toBe(true)
+    expect(result.current.documentId).toBe('original')
+
+    act(() => {
+      result.current.setContent('Edited')
+    })
+    expect(result.current.content).toBe('Shared')
+
+    vi.useFakeTimers()
+    act(() => {
+      result.current.makeEditable()
+    })
+    act(() => {
+      vi.advanceTimersByTime(500)
+    })
+    expect(result.current.readOnly).toBe(false)
+    expect(result.current.documentId).not.toBe('original')
+    expect(compression.compressDocumentToHash).toHaveBeenLastCalledWith({
+      content: 'Shared',
+      name: 'report.md',
+      id: result.current.documentId,
+    })
+
+    act(() => {
+      result.current.setContent('Edited')
+    })
+    expect(result.current.content).toBe('Edited')
+    vi.useRealTimers()
+  })
+
   it('should update document title from first heading', () => {
     vi.useFakeTimers()
     const { result } = renderHook(() => useUrlState())
@@ -1,9 +1,13 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { getFirstHeading } from '@/utils/markdown'
-import { extractFirstEmoji } from '@/utils/emoji'
+import { getDocumentTitle } from '@/utils/markdown'
+import { extractFirstEmoji, removeFirstEmoji } from '@/utils/emoji'
 import {
+  compressDocumentToEncryptedHash,
   compressDocumentToHash,
+  compressDocumentToLegacyHash,
   decompressDocumentFromHash,
+  decryptDocumentFromHash,
+  isEncryptedHash,
   type DocumentData,
 } from '@/utils/compression'
 import { generateShareableUrl, parsePathMetadata } from '@/utils/urlShare'
@@ -17,12 +21,37 @@ interface UseUrlStateOptions {
   defaultName?: string
 }
 
+/**
+ * Size of the current URL hash compared with the legacy LZ codec
+ */
+export interface HashStats {
+  /** Characters in the hash written to the URL */
+  length: number
+  /** Characters the same document would take with the legacy codec */
+  legacyLength: number
+}
+
 interface UseUrlStateReturn {
   content: string
   setContent: (content: string) => void
   documentName: string
   setDocumentName: (name: string) => void
+  /** Stable id saved in the link, keying the document's local version history */
+  documentId: string
+  /** Gives the document a new identity, e.g. when a new one is started */
+  setDocumentId: (id: string) => void
   isOverLimit: boolean
+  hashStats: HashStats | null
+  /** True while an encrypted link is waiting for its passphrase */
+  isLocked: boolean
+  /** Decrypts the pending encrypted link; resolves false if the passphrase is wrong */
+  unlock: (passphrase: string) => Promise<boolean>
+  /** True once an encrypted link is unlocked; its content must not be stored in plaintext */
+  isEncrypted: boolean
+  /** True when the link was shared read-only; edits are ignored until `makeEditable` */
+  readOnly: boolean
+  /** Drops the read-only flag so this tab becomes an editable copy with its own id */
+  makeEditable: () => void
 }
 
 interface FaviconState {
@@ -96,7 +125,42 @@ function updateFavicon(
 }
 
 /**
- * Manages document state with URL hash persistence using LZ compression
+ * Updates the page title and favicon from the document title
+ * (front matter `title`, then the first heading).
+ * Falls back to the share link's path metadata, then the document name.
+ *
+ * @param content - The document content
+ * @param documentName - The document name
+ * @param originalFaviconsRef - Ref to store/retrieve original favicon states
+ * @returns void
+ */
+function updateTitleAndFavicon(
+  content: string,
+  documentName: string,
+  originalFaviconsRef: React.MutableRefObject<FaviconState[] | null>
+): void {
+  const heading = getDocumentTitle(content)
+
+  const emoji = heading ? extractFirstEmoji(heading) : null
+  updateFavicon(emoji, originalFaviconsRef)
+
+  // If we found an emoji, remove it from the title to avoid duplication/clutter
+  // We only remove the first emoji (or its shortcode) once.
+  let title = heading ? removeFirstEmoji(heading) : null
+
+  // If no heading, check for metadata in URL path (for shared links)
+  if (!title) {
+    const pathMetadata = parsePathMetadata(window.location.pathname)
+    if (pathMetadata) {
+      title = pathMetadata.title
+    }
+  }
+
+  document.title = title || documentName
+}
+
+/**
+ * Manages document state with URL hash persistence using versioned deflate compression
  * @param options - Configuration options for URL state management
  * @returns Object containing content, document name, setters, and limit status
  */
@@ -117,10 +181,17 @@ export function useUrlState(options?: UseUrlStateOptions): UseUrlStateReturn {
     return limit ? parseInt(limit, 10) : defaultMaxLength
   })
 
+  // Encrypted links stay locked (and undecoded) until the passphrase is entered
+  const [lockedHash, setLockedHash] = useState<string | null>(() => {
+    const hash = window.location.hash.slice(1)
+    return isEncryptedHash(hash) ? hash : null
+  })
+
   const [content, setContentState] = useState<string>(() => {
     // Initialize from URL hash on mount
     const hash = window.location.hash.slice(1) // Remove leading #
     if (!hash) return defaultContent
+    if (isEncryptedHash(hash)) return ''
 
     try {
       const docData = decompressDocumentFromHash(hash)
@@ -138,7 +209,7 @@ export function useUrlState(options?: UseUrlStateOptions): UseUrlStateReturn {
   const [documentName, setDocumentNameState] = useState<string>(() => {
     // Initialize document name from URL hash on mount
     const hash = window.location.hash.slice(1)
-    if (!hash) return defaultName
+    if (!hash || isEncryptedHash(hash)) return defaultName
 
     try {
       const docData = decompressDocumentFromHash(hash)
@@ -149,36 +220,50 @@ export function useUrlState(options?: UseUrlStateOptions): UseUrlStateReturn {
     }
   })
 
+  // Links from before ids were saved get a fresh one, written with the next edit
+  const [documentId, setDocumentIdState] = useState<string>(() => {
+    const hash = window.location.hash.slice(1)
+    if (!hash || isEncryptedHash(hash)) return crypto.randomUUID()
+
+    try {
+      return decompressDocumentFromHash(hash)?.id ?? crypto.randomUUID()
+    } catch {
+      return crypto.randomUUID()
+    }
+  })
+
+  const [readOnly, setReadOnly] = useState<boolean>(() => {
+    const hash = window.location.hash.slice(1)
+    if (!hash || isEncryptedHash(hash)) return false
+
+    try {
+      return decompressDocumentFromHash(hash)?.readOnly === true
+    } catch {
+      return false
+    }
+  })
+
+  const [isEncrypted, setIsEncrypted] = useState(false)
   const [isOverLimit, setIsOverLimit] = useState(false)
+  const [hashStats, setHashStats] = useState<HashStats | null>(null)
   const timeoutRef = useRef<number | null>(null)
   // Use refs to track the latest values to avoid stale closures
   const contentRef = useRef(content)
   const documentNameRef = useRef(documentName)
+  const documentIdRef = useRef(documentId)
+  const lockedHashRef = useRef(lockedHash)
+  const readOnlyRef = useRef(readOnly)
+  // Passphrase of an unlocked encrypted link, so edits are saved encrypted too
+  const passphraseRef = useRef<string | null>(null)
+  // Increments on every encrypted save so a slow, stale save can't overwrite a newer one
+  const encryptedSaveRef = useRef(0)
   const originalFaviconsRef = useRef<FaviconState[] | null>(null)
 
   // Initialize title and favicon on mount
   const initializedRef = useRef(false)
   useEffect(() => {
     if (!initializedRef.current) {
-      const heading = getFirstHeading(content)
-
-      if (heading) {
-        const emoji = extractFirstEmoji(heading)
-        updateFavicon(emoji, originalFaviconsRef)
-
-        const title = emoji ? heading.replace(emoji, '').trim() : heading
-        document.title = title || documentName
-      } else {
-        // Check for metadata in URL path (for shared links)
-        const pathMetadata = parsePathMetadata(window.location.pathname)
-        if (pathMetadata) {
-          document.title = pathMetadata.title
-        } else {
-          document.title = documentName
-        }
-        updateFavicon(null, originalFaviconsRef)
-      }
-
+      updateTitleAndFavicon(content, documentName, originalFaviconsRef)
       initializedRef.current = true
     }
   }, [content, documentName])
@@ -192,58 +277,33 @@ export function useUrlState(options?: UseUrlStateOptions): UseUrlStateReturn {
     documentNameRef.current = documentName
   }, [documentName])
 
-  // Debounced URL update
-  const updateUrl = useCallback(() => {
-    if (timeoutRef.current !== null) {
-      clearTimeout(timeoutRef.current)
-    }
-
-    timeoutRef.current = window.setTimeout(() => {
-      const docData: DocumentData = {
-        content: contentRef.current,
-        name: documentNameRef.current,
-      }
+  useEffect(() => {
+    documentIdRef.current = documentId
+  }, [documentId])
 
-      // Update document title and favicon from first heading
-      const firstHeading = getFirstHeading(contentRef.current)
-
-      const emoji = firstHeading ? extractFirstEmoji(firstHeading) : null
-      updateFavicon(emoji, originalFaviconsRef)
-
-      // If we found an emoji, remove it from the title to avoid duplication/clutter
-      // We only remove the *exact* extracted emoji string once.
-      let title = firstHeading
-        ? emoji
-          ? firstHeading.replace(emoji, '').trim()
-          : firstHeading
-        : null
-
-      // If no heading, check for metadata in URL path (for shared links)
-      if (!title) {
-        const pathMetadata = parsePathMetadata(window.location.pathname)
-        if (pathMetadata) {
-          title = pathMetadata.title
-        }
-      }
+  useEffect(() => {
+    lockedHashRef.current = lockedHash
+  }, [lockedHash])
 
-      document.title = title || documentNameRef.current
+  useEffect(() => {
+    readOnlyRef.current = readOnly
+  }, [readOnly])
 
-      const compressed = compressDocumentToHash(docData)
-      const overLimit = compressed.length > maxLength
+  // Writes a compressed (or encrypted) hash to the URL
+  const writeHash = useCallback(
+    (hash: string, stats: HashStats | null) => {
+      const overLimit = hash.length > maxLength
 
       setIsOverLimit(overLimit)
+      setHashStats(stats)
 
       if (overLimit) {
-        onLengthWarning?.(compressed.length, maxLength)
+        onLengthWarning?.(hash.length, maxLength)
       }
 
       // Update URL regardless of length (allow users to continue editing)
       // Use shareable URL format with metadata in path segments
-      const shareableUrl = generateShareableUrl(
-        contentRef.current,
-        documentNameRef.current,
-        compressed
-      )
+      const shareableUrl = generateShareableUrl(contentRef.current, documentNameRef.current, hash)
 
       // Preserve existing query parameters
       const currentUrl = new URL(window.location.href)
@@ -259,48 +319,98 @@ export function useUrlState(options?: UseUrlStateOptions): UseUrlStateReturn {
 
       // We use replaceState to update the URL without adding a new history entry for every keystroke
       window.history.replaceState(null, '', newUrl.toString())
+    },
+    [maxLength, onLengthWarning]
+  )
+
+  // Debounced URL update
+  const updateUrl = useCallback(() => {
+    if (timeoutRef.current !== null) {
+      clearTimeout(timeoutRef.current)
+    }
+
+    timeoutRef.current = window.setTimeout(() => {
+      // Never overwrite an encrypted link that hasn't been unlocked yet
+      if (lockedHashRef.current !== null) return
+
+      const docData: DocumentData = {
+        content: contentRef.current,
+        name: documentNameRef.current,
+        id: documentIdRef.current,
+        ...(readOnlyRef.current && { readOnly: true }),
+      }
+
+      // Update document title and favicon from first heading
+      updateTitleAndFavicon(contentRef.current, documentNameRef.current, originalFaviconsRef)
+
+      const passphrase = passphraseRef.current
+      if (passphrase !== null) {
+        const saveId = ++encryptedSaveRef.current
+        compressDocumentToEncryptedHash(docData, passphrase)
+          .then((encrypted) => {
+            if (saveId === encryptedSaveRef.current) writeHash(encrypted, null)
+          })
+          .catch((error) => {
+            onError?.(error instanceof Error ? error : new Error('Failed to encrypt document'))
+          })
+        return
+      }
+
+      const compressed = compressDocumentToHash(docData)
+      writeHash(compressed, {
+        length: compressed.length,
+        legacyLength: compressDocumentToLegacyHash(docData).length,
+      })
     }, debounceMs)
-  }, [debounceMs, maxLength, onLengthWarning])
+  }, [debounceMs, writeHash, onError])
 
   // Handle external hash changes (e.g., back/forward navigation)
   useEffect(() => {
     const handleHashChange = (): void => {
       const hash = window.location.hash.slice(1)
 
-      const updateStateAndTitle = (newContent: string, newName: string) => {
+      const updateStateAndTitle = (
+        newContent: string,
+        newName: string,
+        newReadOnly = false,
+        newId: string = crypto.randomUUID()
+      ) => {
         setContentState(newContent)
         setDocumentNameState(newName)
-        const heading = getFirstHeading(newContent)
-
-        const emoji = heading ? extractFirstEmoji(heading) : null
-        updateFavicon(emoji, originalFaviconsRef)
-
-        // First try to use heading from content
-        let title = heading ? (emoji ? heading.replace(emoji, '').trim() : heading) : null
-
-        // If no heading, check for metadata in URL path (for shared links)
-        if (!title) {
-          const pathMetadata = parsePathMetadata(window.location.pathname)
-          if (pathMetadata) {
-            title = pathMetadata.title
-          }
-        }
-
-        document.title = title || newName
+        setDocumentIdState(newId)
+        readOnlyRef.current = newReadOnly
+        setReadOnly(newReadOnly)
+        updateTitleAndFavicon(newContent, newName, originalFaviconsRef)
       }
 
+      const locked = isEncryptedHash(hash) ? hash : null
+      passphraseRef.current = null
+      setIsEncrypted(false)
+      lockedHashRef.current = locked
+      setLockedHash(locked)
+
       if (!hash) {
         updateStateAndTitle(defaultContent, defaultName)
         return
       }
 
+      if (locked !== null) {
+        updateStateAndTitle('', defaultName)
+        return
+      }
+
       try {
         const docData = decompressDocumentFromHash(hash)
         if (docData === null) {
           onError?.(new Error('Failed to decompress URL hash'))
           updateStateAndTitle(defaultContent, defaultName)
         } else {
-          updateStateAndTitle(docData.content, docData.name ?? defaultName)
+          updateStateAndTitle(
+            docData.content,
+            docData.name ?? defaultName,
+            docData.readOnly === true,
+            docData.id
+          )
         }
       } catch (error) {
         onError?.(error instanceof Error ? error : new Error('Unknown error'))
@@ -317,8 +427,33 @@ export function useUrlState(options?: UseUrlStateOptions): UseUrlStateReturn {
     }
   }, [defaultContent, defaultName, onError])
 
+  const unlock = useCallback(
+    async (passphrase: string): Promise<boolean> => {
+      const hash = lockedHashRef.current
+      if (hash === null) return true
+
+      const docData = await decryptDocumentFromHash(hash, passphrase)
+      if (docData === null) return false
+
+      const name = docData.name ?? defaultName
+      passphraseRef.current = passphrase
+      setIsEncrypted(true)
+      lockedHashRef.current = null
+      setLockedHash(null)
+      setContentState(docData.content)
+      setDocumentNameState(name)
+      setDocumentIdState(docData.id ?? crypto.randomUUID())
+      readOnlyRef.current = docData.readOnly === true
+      setReadOnly(readOnlyRef.current)
+      updateTitleAndFavicon(docData.content, name, originalFaviconsRef)
+      return true
+    },
+    [defaultName]
+  )
+
   const setContent = useCallback(
     (newContent: string) => {
+      if (readOnlyRef.current) return
       setContentState(newContent)
       updateUrl()
     },
@@ -327,17 +462,43 @@ export function useUrlState(options?: UseUrlStateOptions): UseUrlStateReturn {
 
   const setDocumentName = useCallback(
     (newName: string) => {
+      if (readOnlyRef.current) return
       setDocumentNameState(newName)
       updateUrl()
     },
     [updateUrl]
   )
 
+  const setDocumentId = useCallback(
+    (newId: string) => {
+      if (readOnlyRef.current) return
+      setDocumentIdState(newId)
+      updateUrl()
+    },
+    [updateUrl]
+  )
+
+  const makeEditable = useCallback(() => {
+    readOnlyRef.current = false
+    setReadOnly(false)
+    // The copy has its own history, apart from the shared original's
+    setDocumentIdState(crypto.randomUUID())
+    updateUrl()
+  }, [updateUrl])
+
   return {
     content,
     setContent,
     documentName,
     setDocumentName,
+    documentId,
+    setDocumentId,
     isOverLimit,
+    hashStats,
+    isLocked: lockedHash !== null,
+    unlock,
+    isEncrypted,
+    readOnly,
+    makeEditable,
   }
 }
@@ -0,0 +1,73 @@
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { useVersionHistory } from './useVersionHistory'
+import { listSnapshots, moveSnapshots, putSnapshot } from '@/utils/snapshots'
+import type * as Snapshots from '@/utils/snapshots'
+
+vi.mock('@/utils/snapshots', async (importOriginal) => ({
+  ...(await importOriginal<typeof Snapshots>()),
+  listSnapshots: vi.fn(),
+  moveSnapshots: vi.fn(),
+  putSnapshot: vi.fn(),
+}))
+
+const edited = 'x'.repeat(500)
+
+/**
+ * Renders the hook on an empty document, waits for its history to load, then makes a
+ * significant edit and lets the debounce and interval run
+ */
+async function editDocument(autoSnapshots: boolean): Promise<void> {
+  const { rerender } = renderHook(
+    ({ content }) =>
+      useVersionHistory({
+        documentKey: 'secret.md',
+        content,
+        documentName: 'secret.md',
+        autoSnapshots,
+        intervalMs: 20,
+        changeDebounceMs: 10,
+      }),
+    { initialProps: { content: '' } }
+  )
+  await waitFor(() => expect(listSnapshots).toHaveBeenCalled())
+  await act(async () => {
+    await Promise.resolve()
+  })
+
+  rerender({ content: edited })
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 50))
+  })
+}
+
+describe('useVersionHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(listSnapshots).mockResolvedValue([])
+    vi.mocked(putSnapshot).mockResolvedValue()
+  })
+
+  it('snapshots a significant edit', async () => {
+    await editDocument(true)
+    expect(putSnapshot).toHaveBeenCalledWith(
+      expect.objectContaining({ documentKey: 'secret.md', content: edited, kind: 'auto' })
+    )
+  })
+
+  it('writes no snapshots when automatic snapshots are off', async () => {
+    await editDocument(false)
+    expect(putSnapshot).not.toHaveBeenCalled()
+  })
+  it('moves history to a new document id', async () => {
+    vi.mocked(moveSnapshots).mockResolvedValue()
+    const { result } = renderHook(() =>
+      useVersionHistory({ documentKey: 'doc-1', content: '', documentName: 'notes.md' })
+    )
+
+    await act(async () => {
+      await result.current.moveHistory('library-1')
+    })
+    expect(moveSnapshots).toHaveBeenCalledWith('doc-1', 'library-1')
+  })
+})
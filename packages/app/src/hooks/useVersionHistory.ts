@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  createSnapshot,
+  deleteSnapshot,
+  getPrunableSnapshots,
+  isSignificantChange,
+  listSnapshots,
+  moveSnapshots,
+  putSnapshot,
+  type Snapshot,
+} from '@/utils/snapshots'
+
+interface UseVersionHistoryOptions {
+  /** Key grouping snapshots, the document's id */
+  documentKey: string
+  content: string
+  documentName: string
+  /** Whether to take automatic snapshots; off for content that mustn't be stored in plaintext */
+  autoSnapshots?: boolean
+  /** How often to take an automatic snapshot when content has changed */
+  intervalMs?: number
+  /** Debounce before checking whether an edit is significant */
+  changeDebounceMs?: number
+  onError?: (error: Error) => void
+}
+
+interface UseVersionHistoryReturn {
+  snapshots: Snapshot[]
+  createCheckpoint: (label: string) => Promise<Snapshot | null>
+  removeSnapshot: (id: string) => Promise<void>
+  /** Moves the document's snapshots to a new key, for when the document's id changes */
+  moveHistory: (documentKey: string) => Promise<void>
+}
+
+/**
+ * Keeps a local version history for the current document.
+ * Takes automatic snapshots every `intervalMs` and after significant edits,
+ * and lets the user add named checkpoints.
+ * @param options - Document identity, content and timing options
+ * @returns Snapshots for the document and functions to manage them
+ */
+export function useVersionHistory({
+  documentKey,
+  content,
+  documentName,
+  autoSnapshots = true,
+  intervalMs = 5 * 60_000,
+  changeDebounceMs = 2000,
+  onError,
+}: UseVersionHistoryOptions): UseVersionHistoryReturn {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([])
+  const contentRef = useRef(content)
+  const documentNameRef = useRef(documentName)
+  // Content of the newest snapshot; null until history has loaded
+  const lastSnapshotContentRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    contentRef.current = content
+  }, [content])
+
+  useEffect(() => {
+    documentNameRef.current = documentName
+  }, [documentName])
+
+  const reload = useCallback(async (): Promise<Snapshot[]> => {
+    const stored = await listSnapshots(documentKey)
+    setSnapshots(stored)
+    return stored
+  }, [documentKey])
+
+  // Load history whenever the document changes
+  useEffect(() => {
+    let cancelled = false
+    lastSnapshotContentRef.current = null
+
+    listSnapshots(documentKey)
+      .then((stored) => {
+        if (cancelled) return
+        setSnapshots(stored)
+        lastSnapshotContentRef.current = stored[0]?.content ?? ''
+      })
+      .catch(() => {
+        // History is best-effort; without IndexedDB it simply stays empty
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [documentKey])
+
+  const saveSnapshot = useCallback(
+    async (kind: Snapshot['kind'], label?: string): Promise<Snapshot | null> => {
+      const snapshot = createSnapshot(
+        documentKey,
+        { content: contentRef.current, name: documentNameRef.current },
+        kind,
+        label
+      )
+      try {
+        await putSnapshot(snapshot)
+        lastSnapshotContentRef.current = snapshot.content
+        const stored = await reload()
+        if (kind === 'auto') {
+          const prunable = getPrunableSnapshots(stored)
+          if (prunable.length > 0) {
+            await Promise.all(prunable.map((old) => deleteSnapshot(old.id)))
+            await reload()
+          }
+        }
+        return snapshot
+      } catch (error) {
+        onError?.(error instanceof Error ? error : new Error('Failed to save snapshot'))
+        return null
+      }
+    },
+    [documentKey, reload, onError]
+  )
+
+  // Periodic snapshot of any unsaved changes
+  useEffect(() => {
+    if (!autoSnapshots) return
+    const intervalId = setInterval(() => {
+      const last = lastSnapshotContentRef.current
+      if (last !== null && contentRef.current && contentRef.current !== last) {
+        saveSnapshot('auto')
+      }
+    }, intervalMs)
+    return () => clearInterval(intervalId)
+  }, [autoSnapshots, intervalMs, saveSnapshot])
+
+  // Snapshot straight away after a significant edit
+  useEffect(() => {
+    if (!autoSnapshots) return
+    const timeoutId = setTimeout(() => {
+      const last = lastSnapshotContentRef.current
+      if (last !== null && isSignificantChange(last, content)) {
+        saveSnapshot('auto')
+      }
+    }, changeDebounceMs)
+    return () => clearTimeout(timeoutId)
+  }, [autoSnapshots, content, changeDebounceMs, saveSnapshot])
+
+  const createCheckpoint = useCallback(
+    (label: string): Promise<Snapshot | null> => saveSnapshot('manual', label),
+    [saveSnapshot]
+  )
+
+  const removeSnapshot = useCallback(
+    async (id: string): Promise<void> => {
+      try {
+        await deleteSnapshot(id)
+        await reload()
+      } catch (error) {
+        onError?.(error instanceof Error ? error : new Error('Failed to delete snapshot'))
+      }
+    },
+    [reload, onError]
+  )
+
+  const moveHistory = useCallback(
+    async (newKey: string): Promise<void> => {
+      try {
+        await moveSnapshots(documentKey, newKey)
+      } catch (error) {
+        onError?.(error instanceof Error ? error : new Error('Failed to move snapshots'))
+      }
+    },
+    [documentKey, onError]
+  )
+
+  return {
+    snapshots,
+    createCheckpoint,
+    removeSnapshot,
+    moveHistory,
+  }
+}
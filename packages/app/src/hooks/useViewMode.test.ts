@@ -40,6 +40,29 @@ describe('useViewMode', () => {
     expect(result.current.viewMode).toBe('editor')
   })
 
+  it('should initialize diff mode from URL query param', () => {
+    window.location.search = '?view=diff'
+    const { result } = renderHook(() => useViewMode())
+    expect(result.current.viewMode).toBe('diff')
+  })
+
+  it('should pin read-only documents to the preview', () => {
+    window.location.search = '?view=editor'
+    const { result, rerender } = renderHook(({ readOnly }) => useViewMode({ readOnly }), {
+      initialProps: { readOnly: true },
+    })
+    expect(result.current.viewMode).toBe('preview')
+
+    act(() => {
+      result.current.setViewMode('split')
+    })
+    expect(result.current.viewMode).toBe('preview')
+    expect(window.history.replaceState).not.toHaveBeenCalled()
+
+    rerender({ readOnly: false })
+    expect(result.current.viewMode).toBe('editor')
+  })
+
   it('should default to split if param is invalid', () => {
     window.location.search = '?view=invalid'
     const { result } = renderHook(() => useViewMode())
@@ -0,0 +1,36 @@
+// markdown-it syntax plugins and data that ship without type declarations
+
+declare module 'markdown-it-deflist' {
+  import type { PluginSimple } from 'markdown-it'
+  const plugin: PluginSimple
+  export default plugin
+}
+
+declare module 'markdown-it-sub' {
+  import type { PluginSimple } from 'markdown-it'
+  const plugin: PluginSimple
+  export default plugin
+}
+
+declare module 'markdown-it-sup' {
+  import type { PluginSimple } from 'markdown-it'
+  const plugin: PluginSimple
+  export default plugin
+}
+
+declare module 'markdown-it-mark' {
+  import type { PluginSimple } from 'markdown-it'
+  const plugin: PluginSimple
+  export default plugin
+}
+
+declare module 'markdown-it-abbr' {
+  import type { PluginSimple } from 'markdown-it'
+  const plugin: PluginSimple
+  export default plugin
+}
+
+declare module 'markdown-it-emoji/lib/data/full.mjs' {
+  const emojis: Record<string, string>
+  export default emojis
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { scrollToAnchor } from './anchors'
+
+describe('scrollToAnchor', () => {
+  it('scrolls the container to the matching element', () => {
+    const container = document.createElement('div')
+    container.innerHTML = '<h2 id="setup">Setup</h2>'
+    container.querySelector('h2')!.getBoundingClientRect = () => ({ top: 300 }) as DOMRect
+    container.getBoundingClientRect = () => ({ top: 100 }) as DOMRect
+
+    expect(scrollToAnchor(container, 'setup')).toBe(true)
+    expect(container.scrollTop).toBe(184)
+  })
+
+  it('returns false when nothing has the id', () => {
+    const container = document.createElement('div')
+    expect(scrollToAnchor(container, 'missing')).toBe(false)
+  })
+})
@@ -0,0 +1,19 @@
+/** Space left above a heading scrolled into view */
+const ANCHOR_OFFSET = 16
+
+/**
+ * Scrolls a container so the element with the given id sits at its top
+ * @param container - The scrollable element holding the rendered document
+ * @param id - Element id, without the leading `#`
+ * @returns True if the element was found
+ */
+export function scrollToAnchor(container: HTMLElement, id: string): boolean {
+  const target = Array.from(container.querySelectorAll<HTMLElement>('[id]')).find(
+    (el) => el.id === id
+  )
+  if (!target) return false
+
+  const offset = target.getBoundingClientRect().top - container.getBoundingClientRect().top
+  container.scrollTop = Math.max(0, container.scrollTop + offset - ANCHOR_OFFSET)
+  return true
+}
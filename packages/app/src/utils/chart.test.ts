@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { parseChart, renderChartSvg } from './chart'
+
+describe('parseChart', () => {
+  it('charts every numeric CSV column against the first column', () => {
+    expect(parseChart('Month,Visits,Note,Signups\nJan,10,ok,2\nFeb,"1,200",-,5')).toEqual({
+      type: 'bar',
+      title: undefined,
+      labels: ['Jan', 'Feb'],
+      series: [
+        { name: 'Visits', values: [10, 1200] },
+        { name: 'Signups', values: [2, 5] },
+      ],
+    })
+  })
+
+  it('takes the chart type from the info string', () => {
+    expect(parseChart('a,b\nx,1', 'line').type).toBe('line')
+  })
+
+  it('reads a JSON spec with row objects', () => {
+    const chart = parseChart(
+      JSON.stringify({
+        type: 'pie',
+        title: 'Share',
+        x: 'team',
+        y: 'score',
+        data: [
+          { team: 'A', score: 3, other: 9 },
+          { team: 'B', score: 1, other: 9 },
+        ],
+      })
+    )
+
+    expect(chart).toEqual({
+      type: 'pie',
+      title: 'Share',
+      labels: ['A', 'B'],
+      series: [{ name: 'score', values: [3, 1] }],
+    })
+  })
+
+  it('reads a JSON spec with CSV data', () => {
+    const chart = parseChart('{"type": "line", "y": ["b"], "data": "a,b,c\\nx,1,2"}')
+    expect(chart.series).toEqual([{ name: 'b', values: [1] }])
+  })
+
+  it.each([
+    ['', 'Chart has no data'],
+    ['{"data": ', 'Chart spec is not valid JSON'],
+    ['{"type": "radar", "data": "a,b\\nx,1"}', 'Unknown chart type "radar"; use bar, line, pie'],
+    ['a,b', 'Chart needs a header row and data rows'],
+    ['a,b\nx,y', 'Chart has no numeric columns'],
+    ['{"y": "z", "data": "a,b\\nx,1"}', 'Column "z" not found'],
+  ])('rejects %j', (source, message) => {
+    expect(() => parseChart(source)).toThrow(message)
+  })
+})
+
+describe('renderChartSvg', () => {
+  it('draws grouped bars with a legend and value tooltips', () => {
+    const svg = renderChartSvg(parseChart('Month,Visits,Signups\nJan,10,2\nFeb,20,5'))
+
+    expect(svg.match(/<rect [^>]*><title>/g)).toHaveLength(4)
+    expect(svg).toContain('<title>Signups, Feb: 5</title>')
+    expect(svg).toContain('>Visits</text>')
+    expect(svg).toContain('aria-label="bar chart of Visits, Signups"')
+  })
+
+  it('extends the value axis past the largest value', () => {
+    const svg = renderChartSvg(parseChart('a,b\nx,1200', 'line'))
+    const ticks = [...svg.matchAll(/text-anchor="end">([^<]+)</g)].map((match) => match[1])
+
+    expect(ticks).toEqual(['0', '500', '1000', '1500'])
+  })
+
+  it('draws a line per series', () => {
+    const svg = renderChartSvg(parseChart('a,b,c\nx,1,2\ny,3,4', 'line'))
+    expect(svg.match(/<polyline /g)).toHaveLength(2)
+  })
+
+  it('draws a slice per label for pie charts', () => {
+    const svg = renderChartSvg(parseChart('a,b\nx,1\ny,3', 'pie'))
+    expect(svg.match(/<path /g)).toHaveLength(2)
+  })
+
+  it('draws a full circle for a single pie slice', () => {
+    const svg = renderChartSvg(parseChart('a,b\nx,1', 'pie'))
+    expect(svg).toContain('<circle ')
+  })
+
+  it('escapes labels', () => {
+    expect(renderChartSvg(parseChart('a,b\n<x>,1'))).toContain('&lt;x&gt;')
+  })
+
+  it('uses the page text color for axes and labels', () => {
+    expect(renderChartSvg(parseChart('a,b\nx,1'))).toContain('fill="currentColor"')
+  })
+})
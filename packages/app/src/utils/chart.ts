@@ -0,0 +1,293 @@
+import { parseCsv, parseNumericCell } from '@/utils/csv'
+
+export type ChartType = 'bar' | 'line' | 'pie'
+
+const CHART_TYPES: ChartType[] = ['bar', 'line', 'pie']
+
+/** A chart ready to draw: one label per category and one value per label in each series */
+export interface ChartData {
+  type: ChartType
+  title?: string
+  labels: string[]
+  series: { name: string; values: number[] }[]
+}
+
+/**
+ * The JSON form of a ```chart fence. `data` holds either CSV text or rows of objects;
+ * `x` defaults to the first column and `y` to every numeric column after it.
+ */
+interface ChartSpec {
+  type?: string
+  title?: string
+  x?: string
+  y?: string | string[]
+  data?: string | Record<string, unknown>[]
+}
+
+const WIDTH = 640
+const HEIGHT = 320
+const MARGIN = { top: 16, right: 16, bottom: 40, left: 56 }
+const LEGEND_HEIGHT = 24
+
+/** Series colors that read on both the light and dark preview backgrounds */
+const PALETTE = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1']
+
+/**
+ * Parses the body of a ```chart fence: a JSON spec when it starts with `{`, otherwise
+ * CSV whose first column holds the labels and whose numeric columns become series
+ * @param source - The fence content
+ * @param defaultType - Chart type from the info string, e.g. `line` in ```chart line
+ * @returns The chart to draw
+ * @throws {Error} With a message for the reader when the data can't be charted
+ */
+export function parseChart(source: string, defaultType?: string): ChartData {
+  const trimmed = source.trim()
+  if (!trimmed) throw new Error('Chart has no data')
+
+  let spec: ChartSpec = {}
+  let table: string[][]
+  if (trimmed.startsWith('{')) {
+    try {
+      spec = JSON.parse(trimmed)
+    } catch {
+      throw new Error('Chart spec is not valid JSON')
+    }
+    table = specToTable(spec.data)
+  } else {
+    table = parseCsv(trimmed).map((row) => row.map((cell) => cell.trim()))
+  }
+
+  const type = (spec.type ?? defaultType ?? 'bar').toLowerCase() as ChartType
+  if (!CHART_TYPES.includes(type)) {
+    throw new Error(`Unknown chart type "${type}"; use ${CHART_TYPES.join(', ')}`)
+  }
+
+  const [header, ...rows] = table
+  if (!header || rows.length === 0) throw new Error('Chart needs a header row and data rows')
+
+  const column = (name: string): number => {
+    const index = header.indexOf(name)
+    if (index === -1) throw new Error(`Column "${name}" not found`)
+    return index
+  }
+  const xIndex = spec.x ? column(spec.x) : 0
+  const yNames = spec.y === undefined ? undefined : [spec.y].flat()
+  const yIndexes = yNames
+    ? yNames.map(column)
+    : header
+        .map((_, index) => index)
+        .filter((index) => index !== xIndex && rows.some((row) => isNumeric(row[index])))
+  if (yIndexes.length === 0) throw new Error('Chart has no numeric columns')
+
+  return {
+    type,
+    title: spec.title,
+    labels: rows.map((row) => row[xIndex] ?? ''),
+    series: yIndexes.map((index) => ({
+      name: header[index],
+      values: rows.map((row) => parseNumericCell(row[index] ?? '') ?? 0),
+    })),
+  }
+}
+
+/**
+ * Checks whether a cell holds a number
+ * @param value - Cell text, possibly missing
+ * @returns True for numeric cells
+ */
+function isNumeric(value: string | undefined): boolean {
+  return value !== undefined && parseNumericCell(value) !== null
+}
+
+/**
+ * Normalizes a JSON spec's data to a header row followed by data rows
+ * @param data - CSV text or an array of row objects
+ * @returns Table of cell strings
+ */
+function specToTable(data: ChartSpec['data']): string[][] {
+  if (typeof data === 'string') {
+    return parseCsv(data).map((row) => row.map((cell) => cell.trim()))
+  }
+  if (!Array.isArray(data)) throw new Error('Chart spec needs "data" as CSV text or an array')
+
+  const header = [...new Set(data.flatMap((row) => Object.keys(row ?? {})))]
+  return [header, ...data.map((row) => header.map((key) => String(row?.[key] ?? '')))]
+}
+
+/**
+ * Escapes text for use in SVG content and attributes
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Formats a number for an axis or tooltip without floating point noise
+ * @param value - The number
+ * @returns Short text, e.g. `0.3` rather than `0.30000000000000004`
+ */
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(6)))
+}
+
+/**
+ * Rounds a coordinate so the markup stays short
+ * @param value - Coordinate in SVG units
+ * @returns The coordinate to two decimal places
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Picks evenly spaced, round axis ticks covering a range that includes zero
+ * @param min - Smallest value
+ * @param max - Largest value
+ * @returns Ascending tick values; the first and last bound the axis
+ */
+function getTicks(min: number, max: number): number[] {
+  const low = Math.min(0, min)
+  const high = Math.max(0, max)
+  if (low === high) return [0, 1]
+
+  const rough = (high - low) / 4
+  const magnitude = 10 ** Math.floor(Math.log10(rough))
+  const step = [1, 2, 5, 10].map((n) => n * magnitude).find((n) => n >= rough)!
+
+  const ticks = [Math.floor(low / step) * step]
+  while (ticks[ticks.length - 1] < high) {
+    ticks.push(Number((ticks[ticks.length - 1] + step).toPrecision(12)))
+  }
+  return ticks
+}
+
+/**
+ * Draws the legend along the top of the chart
+ * @param names - Entry labels
+ * @returns SVG elements
+ */
+function renderLegend(names: string[]): string {
+  let x = MARGIN.left
+  return names
+    .map((name, i) => {
+      const item =
+        `<rect x="${x}" y="4" width="10" height="10" fill="${PALETTE[i % PALETTE.length]}"/>` +
+        `<text x="${x + 14}" y="13" font-size="12">${escapeXml(name)}</text>`
+      x += 24 + name.length * 7
+      return item
+    })
+    .join('')
+}
+
+/**
+ * Draws a bar or line chart with a value axis, gridlines and category labels
+ * @param chart - The chart to draw
+ * @returns SVG elements
+ */
+function renderAxesChart(chart: ChartData): string {
+  const top = MARGIN.top + (chart.series.length > 1 ? LEGEND_HEIGHT : 0)
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right
+  const plotHeight = HEIGHT - top - MARGIN.bottom
+  const values = chart.series.flatMap((series) => series.values)
+  const ticks = getTicks(Math.min(...values), Math.max(...values))
+  const low = ticks[0]
+  const high = ticks[ticks.length - 1]
+  const y = (value: number): number =>
+    round(top + plotHeight - ((value - low) / (high - low)) * plotHeight)
+  const band = plotWidth / chart.labels.length
+  const center = (i: number): number => round(MARGIN.left + band * (i + 0.5))
+
+  let svg = ticks
+    .map(
+      (tick) =>
+        `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(tick)}" y2="${y(tick)}" stroke="currentColor" stroke-opacity="${tick === 0 ? 0.5 : 0.15}"/>` +
+        `<text x="${MARGIN.left - 8}" y="${round(y(tick) + 4)}" font-size="12" text-anchor="end">${formatNumber(tick)}</text>`
+    )
+    .join('')
+
+  svg += chart.labels
+    .map(
+      (label, i) =>
+        `<text x="${center(i)}" y="${HEIGHT - MARGIN.bottom + 18}" font-size="12" text-anchor="middle">${escapeXml(label)}</text>`
+    )
+    .join('')
+
+  chart.series.forEach((series, s) => {
+    const color = PALETTE[s % PALETTE.length]
+    if (chart.type === 'bar') {
+      const barWidth = (band * 0.8) / chart.series.length
+      svg += series.values
+        .map((value, i) => {
+          const x = round(MARGIN.left + band * i + band * 0.1 + barWidth * s)
+          const barTop = Math.min(y(value), y(0))
+          const height = round(Math.abs(y(value) - y(0)))
+          return `<rect x="${x}" y="${barTop}" width="${round(barWidth)}" height="${height}" fill="${color}"><title>${escapeXml(`${series.name}, ${chart.labels[i]}: ${formatNumber(value)}`)}</title></rect>`
+        })
+        .join('')
+    } else {
+      const points = series.values.map((value, i) => `${center(i)},${y(value)}`).join(' ')
+      svg += `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="2"/>`
+      svg += series.values
+        .map(
+          (value, i) =>
+            `<circle cx="${center(i)}" cy="${y(value)}" r="3" fill="${color}"><title>${escapeXml(`${series.name}, ${chart.labels[i]}: ${formatNumber(value)}`)}</title></circle>`
+        )
+        .join('')
+    }
+  })
+
+  return (chart.series.length > 1 ? renderLegend(chart.series.map((s) => s.name)) : '') + svg
+}
+
+/**
+ * Draws a pie of the first series, with a legend naming each slice
+ * @param chart - The chart to draw
+ * @returns SVG elements
+ */
+function renderPieChart(chart: ChartData): string {
+  const { name, values } = chart.series[0]
+  const total = values.reduce((sum, value) => sum + Math.max(0, value), 0)
+  if (total === 0) throw new Error('Pie chart values must add up to more than zero')
+
+  const radius = (HEIGHT - MARGIN.top - LEGEND_HEIGHT - 8) / 2
+  const cx = WIDTH / 2
+  const cy = MARGIN.top + LEGEND_HEIGHT + radius
+  let angle = -Math.PI / 2
+
+  const slices = values.map((value, i) => {
+    const color = PALETTE[i % PALETTE.length]
+    const tooltip = `<title>${escapeXml(`${name}, ${chart.labels[i]}: ${formatNumber(value)}`)}</title>`
+    const share = Math.max(0, value) / total
+    if (share === 1) {
+      return `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${color}">${tooltip}</circle>`
+    }
+
+    const start = angle
+    angle += share * Math.PI * 2
+    const point = (a: number): string =>
+      `${round(cx + radius * Math.cos(a))},${round(cy + radius * Math.sin(a))}`
+    const largeArc = share > 0.5 ? 1 : 0
+    return `<path d="M${cx},${cy} L${point(start)} A${radius},${radius} 0 ${largeArc} 1 ${point(angle)} Z" fill="${color}">${tooltip}</path>`
+  })
+
+  return renderLegend(chart.labels) + slices.join('')
+}
+
+/**
+ * Draws a chart as standalone SVG. Text and axes use `currentColor`, so the chart
+ * follows the light or dark text color of the page it is shown on.
+ * @param chart - The chart to draw
+ * @returns SVG markup
+ */
+export function renderChartSvg(chart: ChartData): string {
+  const body = chart.type === 'pie' ? renderPieChart(chart) : renderAxesChart(chart)
+  const label =
+    chart.title ?? `${chart.type} chart of ${chart.series.map((series) => series.name).join(', ')}`
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" role="img" aria-label="${escapeXml(label)}" fill="currentColor" style="max-width: 100%; height: auto">${body}</svg>`
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { copyToClipboard, stripHtml } from './clipboard'
+import { copyToClipboard, prepareClipboardHtml, stripHtml } from './clipboard'
+import { renderMarkdown } from './markdown'
 
 describe('clipboard utils', () => {
   describe('stripHtml', () => {
@@ -11,6 +12,23 @@ describe('clipboard utils', () => {
     it('returns empty string for empty input', () => {
       expect(stripHtml('')).toBe('')
     })
+
+    it('turns formulas back into TeX', () => {
+      expect(stripHtml(renderMarkdown('Area $\\pi r^2$'))).toBe('Area $\\pi r^2$\n')
+      expect(stripHtml(renderMarkdown('$$\nx^2\n$$'))).toBe('$$x^2$$\n')
+    })
+  })
+
+  describe('prepareClipboardHtml', () => {
+    it('keeps only the MathML of formulas', () => {
+      const html = prepareClipboardHtml(renderMarkdown('Area $r^2$'))
+      expect(html).toContain('<math')
+      expect(html).not.toContain('katex')
+    })
+
+    it('leaves HTML without formulas unchanged', () => {
+      expect(prepareClipboardHtml('<p>Hi</p>')).toBe('<p>Hi</p>')
+    })
   })
 
   describe('copyToClipboard', () => {
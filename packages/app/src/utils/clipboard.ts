@@ -21,6 +21,20 @@ export async function copyToClipboard(text: string, html?: string): Promise<void
   }
 }
 
+/**
+ * Copies an image to the clipboard. Accepts a promise so the clipboard write starts
+ * within the user gesture while the image is still being generated (required by Safari).
+ *
+ * @param image - PNG image data, or a promise for it
+ * @returns Promise that resolves when the copy operation completes
+ */
+export async function copyImageToClipboard(image: Blob | Promise<Blob>): Promise<void> {
+  if (typeof ClipboardItem === 'undefined') {
+    throw new Error('Copying images is not supported in this browser')
+  }
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': image })])
+}
+
 /**
  * Strips HTML tags from a string and returns plain text.
  *
@@ -30,5 +44,43 @@ export async function copyToClipboard(text: string, html?: string): Promise<void
 export function stripHtml(html: string): string {
   if (typeof window === 'undefined') return html
   const doc = new DOMParser().parseFromString(html, 'text/html')
+  // KaTeX markup would otherwise flatten to the MathML and HTML renderings run together
+  replaceMath(doc, (math, display) => {
+    const tex = math.querySelector('annotation[encoding="application/x-tex"]')?.textContent ?? ''
+    const delimiter = display ? '$$' : '$'
+    return doc.createTextNode(`${delimiter}${tex}${delimiter}`)
+  })
   return doc.body.textContent || ''
 }
+
+/**
+ * Prepares rendered preview HTML for pasting into other apps.
+ * KaTeX formulas are reduced to their MathML, which word processors understand
+ * without the KaTeX stylesheet.
+ *
+ * @param html - HTML content
+ * @returns HTML content for the clipboard
+ */
+export function prepareClipboardHtml(html: string): string {
+  if (typeof window === 'undefined' || !html.includes('class="katex')) return html
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  replaceMath(doc, (math) => math)
+  return doc.body.innerHTML
+}
+
+/**
+ * Replaces each KaTeX formula in a document
+ *
+ * @param doc - Parsed HTML document
+ * @param replace - Returns the node to put in place of a formula, given its MathML element
+ */
+function replaceMath(doc: Document, replace: (math: Element, display: boolean) => Node): void {
+  doc.querySelectorAll('.katex').forEach((katex) => {
+    const math = katex.querySelector('math')
+    if (!math) return
+
+    const display = katex.parentElement?.classList.contains('katex-display') ?? false
+    const target = display ? katex.parentElement! : katex
+    target.replaceWith(replace(math, display))
+  })
+}
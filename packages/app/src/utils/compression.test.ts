@@ -1,9 +1,16 @@
 import { describe, it, expect } from 'vitest'
 import {
   compressToHash,
+  compressDocumentToEncryptedHash,
+  decryptDocumentFromHash,
+  isEncryptedHash,
   decompressFromHash,
   compressDocumentToHash,
+  compressDocumentToLegacyHash,
   decompressDocumentFromHash,
+  toBase64Url,
+  fromBase64Url,
+  HASH_V2_PREFIX,
 } from './compression'
 
 describe('compression', () => {
@@ -42,6 +49,19 @@ describe('compression', () => {
       expect(decompressed).toEqual({ ...data, name: undefined })
     })
 
+    it('should keep the read-only flag only when set', () => {
+      const readOnly = { content: '# Report', name: 'report.md', readOnly: true }
+      expect(decompressDocumentFromHash(compressDocumentToHash(readOnly))).toEqual(readOnly)
+
+      const editable = decompressDocumentFromHash(compressDocumentToHash({ content: '# Report' }))
+      expect(editable).not.toHaveProperty('readOnly')
+    })
+
+    it('should keep the document id', () => {
+      const data = { content: '# Notes', name: 'notes.md', id: 'doc-1' }
+      expect(decompressDocumentFromHash(compressDocumentToHash(data))).toEqual(data)
+    })
+
     it('should handle legacy format (plain content)', () => {
       const content = '# Legacy content'
       const hash = compressToHash(content) // Compressed as plain string, not JSON
@@ -56,5 +76,82 @@ describe('compression', () => {
     it('should handle empty hash', () => {
       expect(decompressDocumentFromHash('')).toEqual({ content: '' })
     })
+
+    it('should prefix new hashes with the codec version', () => {
+      expect(compressDocumentToHash({ content: '# Hello' })).toMatch(/^v2:[\w-]+$/)
+    })
+
+    it('should round-trip unicode content with the v2 codec', () => {
+      const data = { content: '# 🚀 Launch\n\n日本語 — “quotes”', name: 'launch.md' }
+      expect(decompressDocumentFromHash(compressDocumentToHash(data))).toEqual(data)
+    })
+
+    it('should keep decoding legacy LZ document hashes', () => {
+      const data = { content: '# Old link', name: 'old.md' }
+      const legacyHash = compressDocumentToLegacyHash(data)
+      expect(legacyHash.startsWith(HASH_V2_PREFIX)).toBe(false)
+      expect(decompressDocumentFromHash(legacyHash)).toEqual(data)
+    })
+
+    it('should produce shorter hashes than the legacy codec for typical markdown', () => {
+      const content = [
+        '# Project Notes',
+        '',
+        '## Goals',
+        '',
+        '- Ship the **editor** improvements',
+        '- Review [the docs](https://example.com/docs)',
+        '',
+        '```javascript',
+        'const answer = 42',
+        '```',
+        '',
+        '> Keep it simple.',
+      ].join('\n')
+      const data = { content, name: 'notes.md' }
+      expect(compressDocumentToHash(data).length).toBeLessThan(
+        compressDocumentToLegacyHash(data).length
+      )
+    })
+
+    it('should return null for a corrupt v2 hash', () => {
+      expect(decompressDocumentFromHash('v2:not-deflate-data')).toBe(null)
+    })
+  })
+
+  describe('compressDocumentToEncryptedHash & decryptDocumentFromHash', () => {
+    const data = { content: '# Secret 🔐\n\nOnly for you', name: 'secret.md' }
+
+    it('should round-trip document data with the right passphrase', async () => {
+      const hash = await compressDocumentToEncryptedHash(data, 'correct horse')
+      expect(isEncryptedHash(hash)).toBe(true)
+      expect(hash).not.toContain('Secret')
+      expect(await decryptDocumentFromHash(hash, 'correct horse')).toEqual(data)
+    })
+
+    it('should return null for the wrong passphrase', async () => {
+      const hash = await compressDocumentToEncryptedHash(data, 'correct horse')
+      expect(await decryptDocumentFromHash(hash, 'battery staple')).toBe(null)
+    })
+
+    it('should use a fresh salt and IV for every link', async () => {
+      const first = await compressDocumentToEncryptedHash(data, 'pass')
+      const second = await compressDocumentToEncryptedHash(data, 'pass')
+      expect(first).not.toBe(second)
+    })
+
+    it('should not decode encrypted hashes without a passphrase', () => {
+      expect(decompressDocumentFromHash('e1:AAAA')).toBe(null)
+      expect(isEncryptedHash(compressDocumentToHash(data))).toBe(false)
+    })
+  })
+
+  describe('toBase64Url & fromBase64Url', () => {
+    it('should round-trip bytes without padding or unsafe characters', () => {
+      const bytes = new Uint8Array([0, 251, 255, 62, 63, 1, 2])
+      const encoded = toBase64Url(bytes)
+      expect(encoded).not.toMatch(/[+/=]/)
+      expect(fromBase64Url(encoded)).toEqual(bytes)
+    })
   })
 })
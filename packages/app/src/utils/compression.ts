@@ -1,8 +1,98 @@
 import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string'
+import { deflateRaw, inflateRaw } from 'pako'
+import { decryptBytes, encryptBytes } from '@/utils/encryption'
 
 export interface DocumentData {
   content: string
   name?: string
+  /** Opens the link in preview-only mode until the reader makes an editable copy */
+  readOnly?: boolean
+  /** Stable id that keys the document's local version history */
+  id?: string
+}
+
+/** Prefix marking a hash encoded with the v2 (deflate-raw + base64url) codec */
+export const HASH_V2_PREFIX = 'v2:'
+
+/** Prefix marking a v2 hash that has been encrypted with a passphrase (AES-GCM) */
+export const HASH_ENCRYPTED_PREFIX = 'e1:'
+
+/**
+ * Markdown tokens that prime the v2 deflate dictionary, written as they appear inside
+ * JSON-encoded content (newlines are the two characters `\n`). Deflate favours matches
+ * near the end of the dictionary, so the most common tokens come last.
+ *
+ * NEVER edit this list: existing v2 links can only be decoded with the exact same bytes.
+ * A different dictionary needs a new hash version prefix.
+ */
+const MARKDOWN_DICTIONARY_TOKENS = [
+  '<details><summary></summary></details>',
+  '```mermaid\\ngraph TD\\n',
+  '```typescript\\n',
+  '```javascript\\n',
+  '```bash\\n',
+  '```json\\n',
+  '```\\n',
+  '| --- | --- |\\n',
+  '|\\n| ',
+  '![image](https://',
+  '](https://',
+  '](#',
+  '- [ ] ',
+  '- [x] ',
+  '\\n1. ',
+  '\\n2. ',
+  '\\n3. ',
+  '\\n> ',
+  '\\n  - ',
+  '\\n- ',
+  '\\n* ',
+  '**',
+  '\\n\\n#### ',
+  '\\n\\n### ',
+  '\\n\\n## ',
+  '# ',
+  ' the ',
+  ' and ',
+  ' to ',
+  ' of ',
+  '.\\n\\n',
+  '\\n\\n',
+  '","name":"untitled.md"}',
+  '{"content":"',
+]
+
+const MARKDOWN_DICTIONARY = new TextEncoder().encode(MARKDOWN_DICTIONARY_TOKENS.join(''))
+
+/**
+ * Encodes bytes as unpadded base64url
+ * @param bytes - The bytes to encode
+ * @returns URL-safe base64 string
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decodes an unpadded base64url string
+ * @param text - The base64url string
+ * @returns Decoded bytes
+ * @throws If the input is not valid base64url
+ */
+export function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
 }
 
 /**
@@ -31,45 +121,141 @@ export function decompressFromHash(hash: string): string | null {
 }
 
 /**
- * Compresses document data (content + name) to a URL-safe hash string
+ * Deflates document JSON with the Markdown dictionary
  * @param data - The document data to compress
- * @returns Compressed, URL-encoded string
+ * @returns Raw deflate bytes
+ */
+function deflateDocument(data: DocumentData): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(data))
+  return deflateRaw(json, { level: 9, dictionary: MARKDOWN_DICTIONARY })
+}
+
+/**
+ * Inflates bytes produced by `deflateDocument`
+ * @param bytes - Raw deflate bytes
+ * @returns The decompressed text
+ * @throws If the bytes are not valid deflate data or UTF-8
+ */
+function inflateDocument(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(
+    inflateRaw(bytes, { dictionary: MARKDOWN_DICTIONARY })
+  )
+}
+
+/**
+ * Compresses document data (content + name) to a versioned URL-safe hash string
+ * using raw deflate primed with a Markdown dictionary
+ * @param data - The document data to compress
+ * @returns `v2:`-prefixed, base64url-encoded string
  */
 export function compressDocumentToHash(data: DocumentData): string {
+  return HASH_V2_PREFIX + toBase64Url(deflateDocument(data))
+}
+
+/**
+ * Compresses and encrypts document data with a passphrase.
+ * The deflated document is sealed with AES-GCM using a PBKDF2-derived key,
+ * so nothing about the content can be read from the URL.
+ * @param data - The document data to encrypt
+ * @param passphrase - The passphrase needed to open the link
+ * @returns Promise resolving with an `e1:`-prefixed, base64url-encoded string
+ */
+export async function compressDocumentToEncryptedHash(
+  data: DocumentData,
+  passphrase: string
+): Promise<string> {
+  const encrypted = await encryptBytes(deflateDocument(data), passphrase)
+  return HASH_ENCRYPTED_PREFIX + toBase64Url(encrypted)
+}
+
+/**
+ * Checks whether a hash needs a passphrase before it can be decoded
+ * @param hash - The URL hash without the leading `#`
+ * @returns True if the hash was encrypted with a passphrase
+ */
+export function isEncryptedHash(hash: string): boolean {
+  return hash.startsWith(HASH_ENCRYPTED_PREFIX)
+}
+
+/**
+ * Compresses document data with the legacy LZ codec (unversioned hashes)
+ * Used to report how much the current codec saves
+ * @param data - The document data to compress
+ * @returns Compressed, URL-encoded string
+ */
+export function compressDocumentToLegacyHash(data: DocumentData): string {
   const json = JSON.stringify(data)
   return compressToEncodedURIComponent(json)
 }
 
 /**
  * Decompresses a URL-safe hash string back to document data
+ * Decodes both `v2:` hashes and legacy LZ hashes; encrypted hashes need
+ * `decryptDocumentFromHash` instead.
  * Falls back to treating the hash as plain content if it's not valid JSON
  * @param hash - The compressed hash string to decompress
  * @returns Document data, or null if decompression fails
  */
 export function decompressDocumentFromHash(hash: string): DocumentData | null {
   if (!hash) return { content: '' }
+  if (isEncryptedHash(hash)) return null
 
   try {
-    const decompressed = decompressFromEncodedURIComponent(hash)
+    const decompressed = hash.startsWith(HASH_V2_PREFIX)
+      ? inflateDocument(fromBase64Url(hash.slice(HASH_V2_PREFIX.length)))
+      : decompressFromEncodedURIComponent(hash)
     if (!decompressed) return null
 
-    // Try to parse as JSON (new format with name + content)
-    try {
-      const parsed = JSON.parse(decompressed)
-      // Validate the structure
-      if (typeof parsed === 'object' && 'content' in parsed) {
-        return {
-          content: parsed.content,
-          name: parsed.name,
-        }
-      }
-    } catch {
-      // Not JSON, treat as legacy format (plain content)
-    }
+    return parseDocument(decompressed)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Decrypts and decompresses an encrypted hash back to document data
+ * @param hash - The `e1:`-prefixed hash
+ * @param passphrase - The passphrase the link was encrypted with
+ * @returns Promise resolving with the document data, or null if the passphrase is wrong
+ * or the hash is corrupt
+ */
+export async function decryptDocumentFromHash(
+  hash: string,
+  passphrase: string
+): Promise<DocumentData | null> {
+  if (!isEncryptedHash(hash)) return null
 
-    // Legacy format: just content, no name
-    return { content: decompressed }
+  try {
+    const payload = fromBase64Url(hash.slice(HASH_ENCRYPTED_PREFIX.length))
+    const decompressed = inflateDocument(await decryptBytes(payload, passphrase))
+    return parseDocument(decompressed)
   } catch {
     return null
   }
 }
+
+/**
+ * Turns decompressed hash text into document data
+ * @param decompressed - JSON document data, or plain content from very old links
+ * @returns Document data
+ */
+function parseDocument(decompressed: string): DocumentData {
+  // Try to parse as JSON (new format with name + content)
+  try {
+    const parsed = JSON.parse(decompressed)
+    // Validate the structure
+    if (typeof parsed === 'object' && 'content' in parsed) {
+      return {
+        content: parsed.content,
+        name: parsed.name,
+        ...(parsed.readOnly === true && { readOnly: true }),
+        ...(typeof parsed.id === 'string' && { id: parsed.id }),
+      }
+    }
+  } catch {
+    // Not JSON, treat as legacy format (plain content)
+  }
+
+  // Legacy format: just content, no name
+  return { content: decompressed }
+}
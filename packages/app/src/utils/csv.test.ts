@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { detectDelimiter, parseCsv, parseNumericCell } from './csv'
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('a,b\n1,2\r\n3,4')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ])
+  })
+
+  it('handles quoted cells with delimiters, newlines and escaped quotes', () => {
+    expect(parseCsv('name,note\n"Smith, J","said ""hi""\nthen left"')).toEqual([
+      ['name', 'note'],
+      ['Smith, J', 'said "hi"\nthen left'],
+    ])
+  })
+
+  it('keeps empty cells and skips blank lines', () => {
+    expect(parseCsv('a,,c\n\n,b,\n')).toEqual([
+      ['a', '', 'c'],
+      ['', 'b', ''],
+    ])
+  })
+
+  it('parses tab separated values', () => {
+    expect(parseCsv('a\tb\n1\t2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+})
+
+describe('detectDelimiter', () => {
+  it('picks the most frequent delimiter on the first line', () => {
+    expect(detectDelimiter('a\tb\tc\n1,2')).toBe('\t')
+    expect(detectDelimiter('a;b;c')).toBe(';')
+    expect(detectDelimiter('single')).toBe(',')
+  })
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"a,b,c";d;e')).toBe(';')
+  })
+})
+
+describe('parseNumericCell', () => {
+  it('parses numbers as they appear in reports', () => {
+    expect(parseNumericCell('42')).toBe(42)
+    expect(parseNumericCell(' -3.5 ')).toBe(-3.5)
+    expect(parseNumericCell('1,200')).toBe(1200)
+    expect(parseNumericCell('$9.99')).toBe(9.99)
+    expect(parseNumericCell('12%')).toBe(12)
+  })
+
+  it('rejects text', () => {
+    expect(parseNumericCell('Jan')).toBeNull()
+    expect(parseNumericCell('')).toBeNull()
+    expect(parseNumericCell('1.2.3')).toBeNull()
+  })
+})
@@ -0,0 +1,107 @@
+/** Delimiters recognised when sniffing delimited text */
+const DELIMITERS = [',', '\t', ';', '|'] as const
+
+export type CsvDelimiter = (typeof DELIMITERS)[number]
+
+/**
+ * Parses delimited text (CSV, TSV, …) into rows of cells. Follows RFC 4180 quoting:
+ * quoted cells may contain delimiters, newlines and `""` for a literal quote.
+ * Blank lines are skipped.
+ * @param text - The delimited text
+ * @param delimiter - Cell separator; sniffed from the first line when omitted
+ * @returns Rows of cell values, without the quotes
+ */
+export function parseCsv(
+  text: string,
+  delimiter: CsvDelimiter = detectDelimiter(text)
+): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  // Whether the current row has any content, so blank lines can be dropped
+  let started = false
+
+  const endCell = (): void => {
+    row.push(cell)
+    cell = ''
+  }
+  const endRow = (): void => {
+    endCell()
+    if (started) rows.push(row)
+    row = []
+    started = false
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char
+      } else if (text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else {
+        quoted = false
+      }
+      continue
+    }
+
+    if (char === '"' && cell.trim() === '') {
+      cell = ''
+      quoted = true
+      started = true
+    } else if (char === delimiter) {
+      endCell()
+      started = true
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+      if (char.trim()) started = true
+    }
+  }
+  endRow()
+
+  return rows
+}
+
+/**
+ * Guesses the delimiter of some delimited text from its first line, outside quotes
+ * @param text - The delimited text
+ * @returns The most frequent known delimiter, or a comma
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text
+    .trimStart()
+    .split(/\r?\n/, 1)[0]
+    .replace(/"[^"]*"/g, '')
+  let best: CsvDelimiter = ','
+  let bestCount = 0
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/**
+ * Parses a cell as a number, allowing thousands separators, a leading currency
+ * symbol and a trailing percent sign as they appear in pasted reports
+ * @param value - Cell text
+ * @returns The number, or null if the cell isn't numeric
+ */
+export function parseNumericCell(value: string): number | null {
+  const normalized = value
+    .trim()
+    .replace(/^[$€£¥]/, '')
+    .replace(/%$/, '')
+    .replace(/,/g, '')
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalized)) return null
+  return Number(normalized)
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { prepareSvgForExport } from './diagramExport'
+
+const MERMAID_SVG =
+  '<svg id="mermaid-1" width="100%" style="max-width: 240px;" viewBox="0 0 240 120"><g><text>A</text></g></svg>'
+
+const parse = (svg: string): Element =>
+  new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement
+
+describe('prepareSvgForExport', () => {
+  it('sizes the SVG from its viewBox', () => {
+    const root = parse(prepareSvgForExport(MERMAID_SVG, '#faf9f7'))
+
+    expect(root.getAttribute('width')).toBe('240')
+    expect(root.getAttribute('height')).toBe('120')
+    expect(root.getAttribute('style')).not.toContain('max-width')
+  })
+
+  it('declares the SVG namespace so the file opens standalone', () => {
+    expect(prepareSvgForExport(MERMAID_SVG, '#faf9f7')).toContain(
+      'xmlns="http://www.w3.org/2000/svg"'
+    )
+  })
+
+  it('fills the theme background', () => {
+    const root = parse(prepareSvgForExport(MERMAID_SVG, '#0d1117'))
+
+    expect(root.getAttribute('style')).toBe('background-color: #0d1117')
+  })
+
+  it('keeps the diagram content', () => {
+    expect(prepareSvgForExport(MERMAID_SVG, '#0d1117')).toContain('<text>A</text>')
+  })
+
+  it('returns markup that is not an SVG unchanged', () => {
+    expect(prepareSvgForExport('<p>nope</p>', '#faf9f7')).toBe('<p>nope</p>')
+  })
+})
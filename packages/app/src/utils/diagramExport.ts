@@ -0,0 +1,84 @@
+/** Scales offered for PNG downloads */
+export const PNG_EXPORT_SCALES = [1, 2, 4] as const
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+
+/**
+ * Turns a rendered diagram SVG into a standalone file: fixed pixel size from the
+ * viewBox instead of `width="100%"`, and the theme's background so light text stays
+ * readable outside the app
+ * @param svg - SVG markup from Mermaid or Graphviz
+ * @param background - Background color of the theme the diagram was rendered with
+ * @returns Standalone SVG markup with an XML namespace
+ */
+export function prepareSvgForExport(svg: string, background: string): string {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml')
+  const root = doc.documentElement
+  if (root.nodeName !== 'svg') return svg
+
+  const { width, height } = getSvgSize(root)
+  root.setAttribute('xmlns', SVG_NAMESPACE)
+  if (width && height) {
+    root.setAttribute('width', String(width))
+    root.setAttribute('height', String(height))
+  }
+
+  // XML documents don't expose `element.style`, so edit the declarations directly
+  const declarations = (root.getAttribute('style') ?? '')
+    .split(';')
+    .map((declaration) => declaration.trim())
+    .filter((declaration) => declaration && !/^(max-width|background-color)\s*:/i.test(declaration))
+  root.setAttribute('style', [...declarations, `background-color: ${background}`].join('; '))
+
+  return new XMLSerializer().serializeToString(root)
+}
+
+/**
+ * Reads an SVG's intrinsic size from its viewBox, falling back to its width and height
+ * @param root - The root `<svg>` element
+ * @returns Size in CSS pixels; zero when unknown
+ */
+function getSvgSize(root: Element): { width: number; height: number } {
+  const viewBox = root
+    .getAttribute('viewBox')
+    ?.split(/[\s,]+/)
+    .map(Number)
+  if (viewBox?.length === 4 && viewBox.every(Number.isFinite)) {
+    return { width: viewBox[2], height: viewBox[3] }
+  }
+  return {
+    width: parseFloat(root.getAttribute('width') ?? '') || 0,
+    height: parseFloat(root.getAttribute('height') ?? '') || 0,
+  }
+}
+
+/**
+ * Rasterizes a standalone SVG to a PNG
+ * @param svg - Markup from `prepareSvgForExport`
+ * @param scale - Pixel density multiplier, e.g. 2 for retina slides
+ * @returns PNG image data
+ */
+export async function svgToPng(svg: string, scale: number): Promise<Blob> {
+  const root = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement
+  const { width, height } = getSvgSize(root)
+  if (!width || !height) throw new Error('Diagram has no size')
+
+  const image = new Image()
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  await image.decode()
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(width * scale)
+  canvas.height = Math.ceil(height * scale)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not supported')
+  context.scale(scale, scale)
+  context.drawImage(image, 0, 0, width, height)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not create PNG'))),
+      'image/png'
+    )
+  })
+}
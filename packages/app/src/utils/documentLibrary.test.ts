@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createLibraryDocument,
+  getDuplicateName,
+  getLibraryTitle,
+  searchLibraryDocuments,
+  type LibraryDocument,
+} from './documentLibrary'
+
+const makeDoc = (overrides: Partial<LibraryDocument>): LibraryDocument => ({
+  id: 'id',
+  name: 'doc.md',
+  title: 'Doc',
+  content: '',
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+})
+
+describe('documentLibrary', () => {
+  describe('getLibraryTitle', () => {
+    it('should use the first heading', () => {
+      expect(getLibraryTitle({ content: 'intro\n\n# Release Notes', name: 'notes.md' })).toBe(
+        'Release Notes'
+      )
+    })
+
+    it('should fall back to the document name without extension', () => {
+      expect(getLibraryTitle({ content: 'no heading', name: 'notes.md' })).toBe('notes')
+      expect(getLibraryTitle({ content: '' })).toBe('untitled')
+    })
+  })
+
+  describe('createLibraryDocument', () => {
+    it('should create a new record with an id and timestamps', () => {
+      const doc = createLibraryDocument({ content: '# Hello', name: 'hello.md' })
+      expect(doc.id).toBeTruthy()
+      expect(doc.title).toBe('Hello')
+      expect(doc.name).toBe('hello.md')
+      expect(doc.createdAt).toBe(doc.updatedAt)
+    })
+
+    it('should keep id and creation time when updating an existing record', () => {
+      const existing = makeDoc({ id: 'keep-me', createdAt: 42 })
+      const doc = createLibraryDocument({ content: '# New', name: 'new.md' }, existing)
+      expect(doc.id).toBe('keep-me')
+      expect(doc.createdAt).toBe(42)
+      expect(doc.title).toBe('New')
+    })
+  })
+
+  describe('getDuplicateName', () => {
+    it('should insert a copy suffix before the extension', () => {
+      expect(getDuplicateName('notes.md')).toBe('notes copy.md')
+    })
+
+    it('should append the suffix when there is no extension', () => {
+      expect(getDuplicateName('notes')).toBe('notes copy')
+      expect(getDuplicateName('.env')).toBe('.env copy')
+    })
+  })
+
+  describe('searchLibraryDocuments', () => {
+    const docs = [
+      makeDoc({ id: 'a', title: 'Meeting Notes', name: 'meeting.md', updatedAt: 1 }),
+      makeDoc({ id: 'b', title: 'Roadmap', name: 'plan.md', updatedAt: 3 }),
+      makeDoc({ id: 'c', title: 'Retro notes', name: 'retro.md', updatedAt: 2 }),
+    ]
+
+    it('should return all documents sorted by last update for an empty query', () => {
+      expect(searchLibraryDocuments(docs, '  ').map((d) => d.id)).toEqual(['b', 'c', 'a'])
+    })
+
+    it('should match titles case-insensitively', () => {
+      expect(searchLibraryDocuments(docs, 'NOTES').map((d) => d.id)).toEqual(['c', 'a'])
+    })
+
+    it('should match document names', () => {
+      expect(searchLibraryDocuments(docs, 'plan').map((d) => d.id)).toEqual(['b'])
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { getDocumentTitle } from '@/utils/markdown'
+import { DOCUMENTS_STORE, withStore } from '@/utils/indexedDb'
+import type { DocumentData } from '@/utils/compression'
+
+/**
+ * A document saved to the local library
+ */
+export interface LibraryDocument {
+  id: string
+  name: string
+  /** Display title, taken from the first heading or the document name */
+  title: string
+  content: string
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Derives the display title for a document
+ * @param data - The document content and name
+ * @returns The front matter title or first heading, or the name without its extension
+ */
+export function getLibraryTitle(data: DocumentData): string {
+  const title = getDocumentTitle(data.content)
+  if (title) return title
+  return (data.name ?? 'untitled.md').replace(/\.md$/, '')
+}
+
+/**
+ * Builds a library record from document data
+ * @param data - The document content and name
+ * @param existing - Existing record to update, if any
+ * @returns A library document ready to be stored
+ */
+export function createLibraryDocument(
+  data: DocumentData,
+  existing?: LibraryDocument
+): LibraryDocument {
+  const now = Date.now()
+  return {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: data.name ?? 'untitled.md',
+    title: getLibraryTitle(data),
+    content: data.content,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Builds the name for a duplicated document, keeping the extension
+ * @param name - The original document name
+ * @returns The name with a " copy" suffix before the extension
+ */
+export function getDuplicateName(name: string): string {
+  const dotIndex = name.lastIndexOf('.')
+  if (dotIndex <= 0) return `${name} copy`
+  return `${name.slice(0, dotIndex)} copy${name.slice(dotIndex)}`
+}
+
+/**
+ * Filters library documents by title or name, most recently updated first
+ * @param documents - The documents to search
+ * @param query - Case-insensitive search text
+ * @returns Matching documents sorted by last update
+ */
+export function searchLibraryDocuments(
+  documents: LibraryDocument[],
+  query: string
+): LibraryDocument[] {
+  const needle = query.trim().toLowerCase()
+  return documents
+    .filter(
+      (doc) =>
+        !needle ||
+        doc.title.toLowerCase().includes(needle) ||
+        doc.name.toLowerCase().includes(needle)
+    )
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/**
+ * Lists all documents in the library
+ * @returns Promise resolving with every stored document
+ */
+export function listLibraryDocuments(): Promise<LibraryDocument[]> {
+  return withStore<LibraryDocument[]>(DOCUMENTS_STORE, 'readonly', (store) => store.getAll())
+}
+
+/**
+ * Loads a single document from the library
+ * @param id - The document id
+ * @returns Promise resolving with the document, or undefined if missing
+ */
+export function getLibraryDocument(id: string): Promise<LibraryDocument | undefined> {
+  return withStore<LibraryDocument | undefined>(DOCUMENTS_STORE, 'readonly', (store) =>
+    store.get(id)
+  )
+}
+
+/**
+ * Inserts or replaces a document in the library
+ * @param document - The document to store
+ * @returns Promise resolving once the write completes
+ */
+export async function putLibraryDocument(document: LibraryDocument): Promise<void> {
+  await withStore(DOCUMENTS_STORE, 'readwrite', (store) => store.put(document))
+}
+
+/**
+ * Removes a document from the library
+ * @param id - The document id
+ * @returns Promise resolving once the delete completes
+ */
+export async function deleteLibraryDocument(id: string): Promise<void> {
+  await withStore(DOCUMENTS_STORE, 'readwrite', (store) => store.delete(id))
+}
@@ -1,12 +1,12 @@
 /**
  * Downloads a file with the given content to the user's computer
  * @param filename - The name of the file to download
- * @param content - The content to write to the file
+ * @param content - The text or binary content to write to the file
  * @param mimeType - The MIME type of the file (defaults to text/plain)
  */
 export function downloadFile(
   filename: string,
-  content: string,
+  content: string | Blob,
   mimeType: string = 'text/plain'
 ): void {
   const blob = new Blob([content], { type: mimeType })
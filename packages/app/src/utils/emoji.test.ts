@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { extractFirstEmoji } from './emoji'
+import { extractFirstEmoji, removeFirstEmoji } from './emoji'
 
 describe('extractFirstEmoji', () => {
   it('should return null for empty string/null/undefined', () => {
@@ -49,3 +49,39 @@ describe('extractFirstEmoji', () => {
     expect(extractFirstEmoji('👍')).toBe('👍')
   })
 })
+
+describe('extractFirstEmoji with shortcodes', () => {
+  it('should resolve a shortcode to its emoji', () => {
+    expect(extractFirstEmoji('# :rocket: Launch')).toBe('🚀')
+  })
+
+  it('should return whichever emoji comes first', () => {
+    expect(extractFirstEmoji(':tada: then 🚀')).toBe('🎉')
+    expect(extractFirstEmoji('🚀 then :tada:')).toBe('🚀')
+  })
+
+  it('should ignore unknown shortcodes and times', () => {
+    expect(extractFirstEmoji('At 10:30:45 :not_an_emoji:')).toBeNull()
+  })
+
+  it('should ignore shortcodes named after object properties', () => {
+    expect(extractFirstEmoji(':constructor: Build')).toBeNull()
+    expect(extractFirstEmoji(':toString: then :rocket:')).toBe('🚀')
+  })
+})
+
+describe('removeFirstEmoji', () => {
+  it('should remove the first emoji or shortcode', () => {
+    expect(removeFirstEmoji('🚀 Launch')).toBe('Launch')
+    expect(removeFirstEmoji(':rocket: Launch :tada:')).toBe('Launch :tada:')
+  })
+
+  it('should leave text without emoji unchanged', () => {
+    expect(removeFirstEmoji('Plain')).toBe('Plain')
+  })
+
+  it('should keep shortcodes named after object properties', () => {
+    expect(removeFirstEmoji(':constructor: Build')).toBe(':constructor: Build')
+    expect(removeFirstEmoji(':toString: then :rocket:')).toBe(':toString: then')
+  })
+})
@@ -1,24 +1,49 @@
+import emojiData from 'markdown-it-emoji/lib/data/full.mjs'
+
+/** GitHub-style shortcode names (without colons) mapped to their emoji */
+export const EMOJI_SHORTCODES: Record<string, string> = emojiData
+
+/**
+ * Finds the first emoji character or known `:shortcode:` in the text.
+ *
+ * @param text - The text to search
+ * @returns The emoji, the matched source text and its position, or null if none exists
+ */
+function findFirstEmoji(text: string): { emoji: string; match: string; index: number } | null {
+  // \p{Extended_Pictographic} matches most emojis and pictographs, one code point at a time
+  const regex = /\p{Extended_Pictographic}|:([\w+-]+):/gu
+  for (const match of text.matchAll(regex)) {
+    const [source, name] = match
+    // Own keys only, so `:constructor:` isn't read off the prototype
+    if (name !== undefined && !Object.hasOwn(EMOJI_SHORTCODES, name)) continue
+    const emoji = name === undefined ? source : EMOJI_SHORTCODES[name]
+    return { emoji, match: source, index: match.index }
+  }
+  return null
+}
+
 /**
  * Extracts the first emoji from the given text.
- * Uses Unicode property escapes to detect extended pictographics.
+ * Uses Unicode property escapes to detect extended pictographics, and also
+ * recognises shortcodes such as `:rocket:`.
  *
  * @param text - The text to search for an emoji
  * @returns The first emoji found, or null if none exists
  */
 export function extractFirstEmoji(text: string): string | null {
   if (!text) return null
+  return findFirstEmoji(text)?.emoji ?? null
+}
 
-  // Regex to match the first emoji.
-  // \p{Extended_Pictographic} matches most emojis and pictographs.
-  // We need the 'u' flag for unicode property escapes (implied in modern envs or explicit).
-  // Note: This might match some characters that are not strictly "emoji" in the sense of colorful icons
-  // depending on the exact unicode definition, but it's the standard way to detect them.
-  // We might want to be more specific if we find it matching unwanted chars,
-  // but for a favicon extractor, this is usually sufficient.
-  //
-  // Capturing the first match.
-  const regex = /\p{Extended_Pictographic}/u
-  const match = text.match(regex)
-
-  return match ? match[0] : null
+/**
+ * Removes the first emoji or shortcode from the text, e.g. to keep it out of a title
+ * that already shows the emoji as a favicon.
+ *
+ * @param text - The text to clean
+ * @returns The text without its first emoji, trimmed
+ */
+export function removeFirstEmoji(text: string): string {
+  const found = text ? findFirstEmoji(text) : null
+  if (!found) return text
+  return (text.slice(0, found.index) + text.slice(found.index + found.match.length)).trim()
 }
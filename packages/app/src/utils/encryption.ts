@@ -0,0 +1,71 @@
+/** PBKDF2 rounds used to stretch the passphrase (OWASP recommendation for SHA-256) */
+const PBKDF2_ITERATIONS = 600_000
+
+const SALT_BYTES = 16
+
+/** AES-GCM nonce length */
+const IV_BYTES = 12
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2-SHA256
+ * @param passphrase - The user's passphrase
+ * @param salt - Random salt stored alongside the ciphertext
+ * @returns AES-GCM key usable for encrypt and decrypt
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Encrypts bytes with AES-GCM using a key derived from the passphrase.
+ * A fresh salt and IV are generated on every call.
+ * @param plaintext - The bytes to encrypt
+ * @param passphrase - The passphrase to derive the key from
+ * @returns Salt, IV and ciphertext concatenated in that order
+ */
+export async function encryptBytes(plaintext: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const key = await deriveKey(passphrase, salt)
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new Uint8Array(plaintext))
+  )
+
+  const payload = new Uint8Array(SALT_BYTES + IV_BYTES + ciphertext.length)
+  payload.set(salt, 0)
+  payload.set(iv, SALT_BYTES)
+  payload.set(ciphertext, SALT_BYTES + IV_BYTES)
+  return payload
+}
+
+/**
+ * Decrypts a payload produced by `encryptBytes`
+ * @param payload - Salt, IV and ciphertext concatenated
+ * @param passphrase - The passphrase the payload was encrypted with
+ * @returns The decrypted bytes
+ * @throws If the passphrase is wrong or the payload has been tampered with
+ */
+export async function decryptBytes(payload: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  if (payload.length <= SALT_BYTES + IV_BYTES) {
+    throw new Error('Encrypted payload is too short')
+  }
+
+  const salt = payload.slice(0, SALT_BYTES)
+  const iv = payload.slice(SALT_BYTES, SALT_BYTES + IV_BYTES)
+  const ciphertext = payload.slice(SALT_BYTES + IV_BYTES)
+  const key = await deriveKey(passphrase, salt)
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext))
+}
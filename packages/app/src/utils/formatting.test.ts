@@ -471,4 +471,33 @@ describe('getAutoContinueEdit', () => {
   it('should ignore if cursor is before the prefix', () => {
     expect(getAutoContinueEdit('- Item 1', 2)).toBeNull()
   })
+
+  it('should continue the quote on a GitHub alert marker line', () => {
+    expect(getAutoContinueEdit('> [!NOTE]', 10)).toEqual<AutoContinueResult>({
+      action: 'continue',
+      text: '\n> ',
+      range: { startColumn: 10, endColumn: 10 },
+    })
+  })
+
+  it('should keep nested quote prefixes', () => {
+    expect(getAutoContinueEdit('> > Inner', 10)?.text).toBe('\n> > ')
+  })
+
+  it('should continue lists inside quotes', () => {
+    expect(getAutoContinueEdit('> - Item', 9)?.text).toBe('\n> - ')
+    expect(getAutoContinueEdit('> 2. Item', 10)?.text).toBe('\n> 3. ')
+  })
+
+  it('should exit an empty list item but stay in the quote', () => {
+    expect(getAutoContinueEdit('> - ', 5)).toEqual<AutoContinueResult>({
+      action: 'exit',
+      text: '> ',
+      range: { startColumn: 1, endColumn: 5 },
+    })
+  })
+
+  it('should not treat a bare > without a space as a quote', () => {
+    expect(getAutoContinueEdit('>text', 6)).toBeNull()
+  })
 })
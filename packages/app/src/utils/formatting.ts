@@ -302,20 +302,42 @@ export function getAutoContinueEdit(
   // text before cursor
   const beforeCursor = lineContent.substring(0, cursorColumn - 1)
 
+  // Blockquotes (including GitHub alerts like `> [!NOTE]`) keep their `>` prefix, and
+  // lists inside them continue as lists
+  const quoteMatch = beforeCursor.match(/^(\s*(?:>\s)*>)(?:\s(.*))?$/)
+  if (quoteMatch) {
+    const prefix = `${quoteMatch[1]} `
+    const rest = quoteMatch[2] ?? ''
+    if (!rest.trim()) {
+      return {
+        action: 'exit',
+        range: {
+          startColumn: 1,
+          endColumn: cursorColumn,
+        },
+      }
+    }
+
+    const inner = getAutoContinueEdit(rest, rest.length + 1)
+    return {
+      action: inner?.action ?? 'continue',
+      // An empty list item exits the list but stays in the quote
+      text: inner?.action === 'exit' ? prefix : `\n${prefix}${inner?.text?.slice(1) ?? ''}`,
+      range: {
+        startColumn: inner?.action === 'exit' ? 1 : cursorColumn,
+        endColumn: cursorColumn,
+      },
+    }
+  }
+
   // Patterns
   const unorderedListPattern = /^(\s*)[-*+]\s+$/
   const unorderedListContentPattern = /^(\s*)([-*+])\s+(.+)/
   const orderedListPattern = /^(\s*)(\d+)\.\s+$/
   const orderedListContentPattern = /^(\s*)(\d+)\.\s+(.+)/
-  const quotePattern = /^(\s*)>\s?$/
-  const quoteContentPattern = /^(\s*)>\s(.+)/
-
-  // Check for empty list/quote (to exit)
-  if (
-    unorderedListPattern.test(beforeCursor) ||
-    orderedListPattern.test(beforeCursor) ||
-    quotePattern.test(beforeCursor)
-  ) {
+
+  // Check for empty list (to exit)
+  if (unorderedListPattern.test(beforeCursor) || orderedListPattern.test(beforeCursor)) {
     return {
       action: 'exit',
       range: {
@@ -354,18 +376,5 @@ export function getAutoContinueEdit(
     }
   }
 
-  const quoteMatch = beforeCursor.match(quoteContentPattern)
-  if (quoteMatch) {
-    const indent = quoteMatch[1]
-    return {
-      action: 'continue',
-      text: `\n${indent}> `,
-      range: {
-        startColumn: cursorColumn,
-        endColumn: cursorColumn,
-      },
-    }
-  }
-
   return null
 }
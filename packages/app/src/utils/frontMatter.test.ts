@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { extractFrontMatter, formatFrontMatterValue, getFrontMatterTitle } from './frontMatter'
+
+describe('extractFrontMatter', () => {
+  it('parses YAML fields, inline lists and block lists', () => {
+    const markdown = [
+      '---',
+      'title: "Release Notes" # shown in the tab',
+      'draft: false',
+      'version: 2.1',
+      'tags: [docs, release]',
+      'authors:',
+      '  - Ada',
+      '  - Grace',
+      '---',
+      '# Heading',
+    ].join('\n')
+
+    const { frontMatter, body } = extractFrontMatter(markdown)
+    expect(frontMatter?.format).toBe('yaml')
+    expect(frontMatter?.lineCount).toBe(9)
+    expect(frontMatter?.data).toEqual({
+      title: 'Release Notes',
+      draft: false,
+      version: 2.1,
+      tags: ['docs', 'release'],
+      authors: ['Ada', 'Grace'],
+    })
+    expect(body).toBe('# Heading')
+  })
+
+  it('parses TOML fields with dotted table keys', () => {
+    const markdown = '+++\ntitle = "Notes"\n[params]\ncolor = "blue"\n+++\nBody'
+    const { frontMatter, body } = extractFrontMatter(markdown)
+    expect(frontMatter?.format).toBe('toml')
+    expect(frontMatter?.data).toEqual({ title: 'Notes', 'params.color': 'blue' })
+    expect(body).toBe('Body')
+  })
+
+  it('ignores documents without a closed block at the very top', () => {
+    expect(extractFrontMatter('---\ntitle: Open').frontMatter).toBeNull()
+    expect(extractFrontMatter('Intro\n---\ntitle: x\n---').frontMatter).toBeNull()
+  })
+
+  it('treats an opening horizontal rule as content when the block is not fields', () => {
+    const markdown = '---\n\n# Slide 1\n\nIntro\n\n---\n\n# Slide 2'
+    expect(extractFrontMatter(markdown)).toEqual({ frontMatter: null, body: markdown })
+    expect(extractFrontMatter('---\ntitle: x\nSome prose\n---').frontMatter).toBeNull()
+  })
+
+  it('accepts nested values and multi-line arrays as field continuations', () => {
+    expect(extractFrontMatter('---\nseo:\n  image: a.png\n---').frontMatter).not.toBeNull()
+    expect(extractFrontMatter('+++\ntags = [\n  "a",\n]\n+++').frontMatter).not.toBeNull()
+  })
+})
+
+describe('getFrontMatterTitle', () => {
+  it('returns the title field', () => {
+    expect(getFrontMatterTitle('---\ntitle: Plan\n---\n# Other')).toBe('Plan')
+  })
+
+  it('returns null without a usable title', () => {
+    expect(getFrontMatterTitle('# Heading')).toBeNull()
+    expect(getFrontMatterTitle('---\ntitle: ""\n---')).toBeNull()
+  })
+})
+
+describe('formatFrontMatterValue', () => {
+  it('joins lists with commas', () => {
+    expect(formatFrontMatterValue(['a', 1, true])).toBe('a, 1, true')
+    expect(formatFrontMatterValue(false)).toBe('false')
+  })
+})
@@ -0,0 +1,203 @@
+export type FrontMatterFormat = 'yaml' | 'toml'
+
+export type FrontMatterScalar = string | number | boolean
+
+export type FrontMatterValue = FrontMatterScalar | FrontMatterScalar[]
+
+/**
+ * Metadata block at the very top of a document, fenced by `---` (YAML) or `+++` (TOML)
+ */
+export interface FrontMatter {
+  format: FrontMatterFormat
+  /** Text between the fences */
+  raw: string
+  /** Top-level keys; nested structures are not expanded */
+  data: Record<string, FrontMatterValue>
+  /** Source lines taken up by the block, including both fences */
+  lineCount: number
+}
+
+const OPENING_FENCES: Record<string, { format: FrontMatterFormat; closing: string[] }> = {
+  '---': { format: 'yaml', closing: ['---', '...'] },
+  '+++': { format: 'toml', closing: ['+++'] },
+}
+
+/**
+ * Finds front matter at the start of a document
+ * @param markdown - The markdown text
+ * @returns The parsed front matter and the remaining document body
+ */
+export function extractFrontMatter(markdown: string): {
+  frontMatter: FrontMatter | null
+  body: string
+} {
+  const lines = markdown.split(/\r?\n/)
+  const fence = OPENING_FENCES[lines[0]?.trimEnd()]
+  if (!fence) return { frontMatter: null, body: markdown }
+
+  const closingIndex = lines.findIndex((line, i) => i > 0 && fence.closing.includes(line.trimEnd()))
+  if (closingIndex === -1) return { frontMatter: null, body: markdown }
+
+  const raw = lines.slice(1, closingIndex).join('\n')
+  if (!isFieldBlock(raw, fence.format)) return { frontMatter: null, body: markdown }
+
+  return {
+    frontMatter: {
+      format: fence.format,
+      raw,
+      data: fence.format === 'yaml' ? parseYamlFields(raw) : parseTomlFields(raw),
+      lineCount: closingIndex + 1,
+    },
+    body: lines.slice(closingIndex + 1).join('\n'),
+  }
+}
+
+/**
+ * Checks that a fenced block holds only metadata fields, so a document that opens with
+ * a `---` rule (e.g. slides) isn't swallowed up to its next rule. Every line must be
+ * blank, a comment, a `key: value` / `key = value` field, a TOML `[table]`, or an
+ * indented or list continuation of a field.
+ * @param raw - Text between the fences
+ * @param format - The fence's format
+ * @returns Whether the block is front matter
+ */
+function isFieldBlock(raw: string, format: FrontMatterFormat): boolean {
+  const field = format === 'yaml' ? /^[\w-]+\s*:(?:\s|$)/ : /^([\w.-]+|"[^"]*")\s*=/
+  let hasField = false
+
+  for (const line of raw.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) continue
+    if (field.test(line)) {
+      hasField = true
+      continue
+    }
+    if (format === 'toml' && /^\[+\s*[\w.-]+\s*\]+$/.test(trimmed)) continue
+    // Nested values, block lists and multi-line arrays continue the field above them
+    const isContinuation = /^\s/.test(line) || /^-\s/.test(line) || /^[\]}]/.test(trimmed)
+    if (!hasField || !isContinuation) return false
+  }
+
+  return true
+}
+
+/**
+ * Reads the `title` field from a document's front matter
+ * @param markdown - The markdown text
+ * @returns The title, or null if there is no non-empty title field
+ */
+export function getFrontMatterTitle(markdown: string): string | null {
+  const title = extractFrontMatter(markdown).frontMatter?.data.title
+  if (title === undefined || Array.isArray(title)) return null
+  return String(title).trim() || null
+}
+
+/**
+ * Formats a front matter value for display
+ * @param value - The field value
+ * @returns Display text; list items are comma separated
+ */
+export function formatFrontMatterValue(value: FrontMatterValue): string {
+  return Array.isArray(value) ? value.map(String).join(', ') : String(value)
+}
+
+/**
+ * Parses top-level `key: value` pairs and simple `- item` lists from YAML
+ * @param raw - YAML text
+ * @returns Parsed fields
+ */
+function parseYamlFields(raw: string): Record<string, FrontMatterValue> {
+  const data: Record<string, FrontMatterValue> = {}
+  let listKey: string | null = null
+
+  for (const line of raw.split('\n')) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue
+
+    const field = line.match(/^([\w-]+)\s*:(?:\s+(.*))?$/)
+    if (field) {
+      const [, key, value = ''] = field
+      listKey = value.trim() ? null : key
+      if (value.trim()) data[key] = parseValue(stripComment(value))
+      continue
+    }
+
+    const item = line.match(/^\s*-\s+(.*)$/)
+    if (item && listKey) {
+      const existing = data[listKey]
+      const list = Array.isArray(existing) ? existing : []
+      list.push(parseScalar(stripComment(item[1])))
+      data[listKey] = list
+    }
+  }
+
+  return data
+}
+
+/**
+ * Parses `key = value` pairs from TOML; keys inside `[table]` sections are dotted
+ * @param raw - TOML text
+ * @returns Parsed fields
+ */
+function parseTomlFields(raw: string): Record<string, FrontMatterValue> {
+  const data: Record<string, FrontMatterValue> = {}
+  let table = ''
+
+  for (const line of raw.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) continue
+
+    const header = trimmed.match(/^\[+\s*([\w.-]+)\s*\]+$/)
+    if (header) {
+      table = header[1]
+      continue
+    }
+
+    const field = trimmed.match(/^([\w.-]+|"[^"]*")\s*=\s*(.*)$/)
+    if (field) {
+      const key = field[1].replace(/^"|"$/g, '')
+      data[table ? `${table}.${key}` : key] = parseValue(stripComment(field[2]))
+    }
+  }
+
+  return data
+}
+
+/**
+ * Removes a trailing ` # comment` from an unquoted value
+ * @param value - Raw value text
+ * @returns Value without the comment
+ */
+function stripComment(value: string): string {
+  const trimmed = value.trim()
+  const quoted = trimmed.match(/^("[^"]*"|'[^']*')/)
+  if (quoted) return quoted[1]
+  return trimmed.replace(/\s+#.*$/, '')
+}
+
+/**
+ * Parses a scalar or an inline `[a, b]` list
+ * @param value - Value text
+ * @returns Parsed value
+ */
+function parseValue(value: string): FrontMatterValue {
+  const list = value.match(/^\[(.*)\]$/)
+  if (list) {
+    return list[1].trim() ? list[1].split(',').map((item) => parseScalar(item)) : []
+  }
+  return parseScalar(value)
+}
+
+/**
+ * Parses a quoted string, boolean, number or bare string
+ * @param value - Value text
+ * @returns Parsed scalar
+ */
+function parseScalar(value: string): FrontMatterScalar {
+  const trimmed = value.trim()
+  const quoted = trimmed.match(/^"(.*)"$|^'(.*)'$/)
+  if (quoted) return quoted[1] ?? quoted[2]
+  if (trimmed === 'true') return true
+  if (trimmed === 'false') return false
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed)
+  return trimmed
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest'
+import type * as VizModule from '@viz-js/viz'
+import {
+  getGraphvizError,
+  getGraphvizTheme,
+  inlineGraphvizDiagrams,
+  renderGraphviz,
+} from './graphviz'
+
+describe('renderGraphviz', () => {
+  it('renders DOT to inline SVG', async () => {
+    const svg = await renderGraphviz('digraph { a -> b }', 'light')
+
+    expect(svg.startsWith('<svg')).toBe(true)
+    expect(svg).toContain('<title>a&#45;&gt;b</title>')
+  })
+
+  it.each(['light', 'dark'] as const)('uses the %s palette by default', async (colorMode) => {
+    const { nodeAttributes, edgeAttributes } = getGraphvizTheme(colorMode).options
+    const svg = await renderGraphviz('digraph { a -> b }', colorMode)
+
+    expect(svg).toContain(`stroke="${nodeAttributes!.color}"`)
+    expect(svg).toContain(`stroke="${edgeAttributes!.color}"`)
+  })
+
+  it('lets the graph override theme colors', async () => {
+    const svg = await renderGraphviz('digraph { node [color=red]; a }', 'dark')
+    expect(svg).toContain('stroke="red"')
+  })
+
+  it('drops script links and event handlers from the output', async () => {
+    const svg = await renderGraphviz(
+      'digraph { a [href="javascript:alert(1)"]; b [URL="java&#x73;cript:x"]; c [href="https://x.dev/"] }',
+      'light'
+    )
+
+    expect(svg).not.toMatch(/javascript|java&/i)
+    expect(svg).toContain('xlink:href="https://x.dev/"')
+    expect(svg).toContain('<title>a</title>')
+  })
+
+  it('rejects invalid DOT with the line of the error', async () => {
+    const error = await renderGraphviz('digraph {\n  a -> b\n  b -> -> c\n}', 'light').catch(
+      (e: unknown) => e
+    )
+
+    expect(getGraphvizError(error)).toEqual({
+      line: 3,
+      message: "syntax error in line 3 near '->'",
+    })
+  })
+
+  it('retries loading Graphviz after a failed load', async () => {
+    vi.resetModules()
+    const actual = await vi.importActual<typeof VizModule>('@viz-js/viz')
+    const instance = vi.fn(actual.instance).mockRejectedValueOnce(new Error('Network error'))
+    vi.doMock('@viz-js/viz', () => ({ ...actual, instance }))
+    const graphviz = await import('./graphviz')
+
+    await expect(graphviz.renderGraphviz('digraph { a }', 'light')).rejects.toThrow('Network error')
+    await expect(graphviz.renderGraphviz('digraph { a }', 'light')).resolves.toContain('<svg')
+    expect(instance).toHaveBeenCalledTimes(2)
+    vi.doUnmock('@viz-js/viz')
+  })
+})
+
+describe('inlineGraphvizDiagrams', () => {
+  it('replaces Graphviz code blocks with SVG and keeps other blocks', async () => {
+    const html =
+      '<p>Intro</p><pre><code class="hljs language-dot">digraph { a -&gt; b }</code></pre><pre><code class="hljs language-mermaid">A --&gt; B</code></pre>'
+    const result = await inlineGraphvizDiagrams(html, 'light')
+
+    expect(result).toContain('<p>Intro</p><div class="graphviz-diagram"><svg')
+    expect(result).toContain('<pre><code class="hljs language-mermaid">A --&gt; B</code></pre>')
+  })
+
+  it('keeps graphs that fail to render as code', async () => {
+    const html = '<pre><code class="hljs language-graphviz">digraph { a -&gt; }</code></pre>'
+    expect(await inlineGraphvizDiagrams(html, 'light')).toBe(
+      '<pre><code class="hljs language-graphviz">digraph { a -&gt; }</code></pre>'
+    )
+  })
+
+  it('returns HTML without Graphviz unchanged', async () => {
+    expect(await inlineGraphvizDiagrams('<p>Hi</p>', 'dark')).toBe('<p>Hi</p>')
+  })
+})
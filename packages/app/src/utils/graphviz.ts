@@ -0,0 +1,148 @@
+import type { RenderOptions, Viz } from '@viz-js/viz'
+import { isSafeUrl } from '@/utils/markdownHtml'
+import { getMermaidInitializeOptions, type MermaidColorMode } from '@/utils/mermaidTheme'
+import { splitHtmlAtDiagrams } from '@/utils/splitHtmlAtDiagrams'
+
+/** A Graphviz theme: default attributes a graph can still override, and its backdrop */
+export interface GraphvizTheme {
+  background: string
+  options: RenderOptions
+}
+
+/** A Graphviz syntax error, with its 1-based line in the DOT source when known */
+export interface GraphvizError {
+  line: number | null
+  message: string
+}
+
+let vizInstance: Promise<Viz> | null = null
+
+/** Elements that could run script, embed HTML or rewrite links, removed with their content */
+const UNSAFE_SVG_ELEMENTS = /<(script|foreignObject|set|animate)\b(?:[^>]*\/>|[\s\S]*?<\/\1\s*>)/gi
+
+const SVG_ATTRIBUTE = /\s([^\s"'>/=]+)\s*=\s*("[^"]*"|'[^']*')/g
+
+/**
+ * Loads the bundled Graphviz WebAssembly build on first use. A failed load, such as
+ * the chunk being unreachable offline, is retried on the next render.
+ * @returns The shared Viz instance
+ */
+function loadViz(): Promise<Viz> {
+  vizInstance ??= import('@viz-js/viz')
+    .then((viz) => viz.instance())
+    .catch((error: unknown) => {
+      vizInstance = null
+      throw error
+    })
+  return vizInstance
+}
+
+/**
+ * Returns Graphviz defaults matching the Mermaid palette for a color mode, so both
+ * kinds of diagram look alike in the preview
+ * @param colorMode - The application color mode
+ * @returns Default graph, node and edge attributes and the theme background
+ */
+export function getGraphvizTheme(colorMode: MermaidColorMode): GraphvizTheme {
+  const theme = getMermaidInitializeOptions(colorMode).themeVariables
+  return {
+    background: theme.background,
+    options: {
+      graphAttributes: {
+        bgcolor: 'transparent',
+        color: theme.clusterBorder,
+        fontcolor: theme.primaryTextColor,
+      },
+      nodeAttributes: {
+        color: theme.primaryBorderColor,
+        fillcolor: theme.primaryColor,
+        fontcolor: theme.primaryTextColor,
+      },
+      edgeAttributes: {
+        color: theme.lineColor,
+        fontcolor: theme.primaryTextColor,
+      },
+    },
+  }
+}
+
+/**
+ * Removes anything from Graphviz output that could run script: event handlers, script
+ * and foreign content, and links whose scheme `sanitizeHtml` wouldn't allow, such as
+ * `a [href="javascript:…"]`
+ * @param svg - SVG markup from Graphviz
+ * @returns SVG markup that is safe to inline
+ */
+function sanitizeSvg(svg: string): string {
+  return svg.replace(UNSAFE_SVG_ELEMENTS, '').replace(/<[a-zA-Z][^>]*>/g, (tag) =>
+    tag.replace(SVG_ATTRIBUTE, (attribute, name: string, value: string) => {
+      const lowerName = name.toLowerCase()
+      if (lowerName.startsWith('on')) return ''
+      const isLink = lowerName === 'href' || lowerName === 'xlink:href'
+      if (isLink && !isSafeUrl(value.slice(1, -1), tag.startsWith('<image'))) return ''
+      return attribute
+    })
+  )
+}
+
+/**
+ * Renders DOT source to SVG with the bundled Graphviz build, which works offline
+ * @param code - The DOT source
+ * @param colorMode - The application color mode
+ * @returns Sanitized SVG markup without the XML prolog, ready to inline in HTML
+ */
+export async function renderGraphviz(code: string, colorMode: MermaidColorMode): Promise<string> {
+  const viz = await loadViz()
+  const svg = viz.renderString(code, { ...getGraphvizTheme(colorMode).options, format: 'svg' })
+  return sanitizeSvg(svg.slice(svg.indexOf('<svg')))
+}
+
+/**
+ * Reads the line out of a Graphviz error such as `syntax error in line 3 near '->'`
+ * @param error - The value thrown by `renderGraphviz`
+ * @returns The error's line and message
+ */
+export function getGraphvizError(error: unknown): GraphvizError {
+  const message = error instanceof Error ? error.message : String(error)
+  const line = message.match(/\bin line (\d+)/)
+  return { line: line ? Number(line[1]) : null, message: message || 'Invalid DOT graph' }
+}
+
+/**
+ * Escapes text for use inside an HTML element
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Replaces Graphviz code blocks in rendered HTML with their SVG, for static exports
+ * that can't run the WebAssembly renderer. Graphs that fail to render stay as code.
+ * @param html - Rendered document HTML
+ * @param colorMode - The application color mode
+ * @returns HTML with inline Graphviz SVGs
+ */
+export async function inlineGraphvizDiagrams(
+  html: string,
+  colorMode: MermaidColorMode
+): Promise<string> {
+  const segments = splitHtmlAtDiagrams(html)
+  if (!segments.some((segment) => segment.type === 'graphviz')) return html
+
+  const parts = await Promise.all(
+    segments.map(async (segment): Promise<string> => {
+      if (segment.type === 'html') return segment.content
+      const code = `<pre><code class="hljs language-${segment.type}">${escapeHtml(segment.code)}</code></pre>`
+      if (segment.type === 'mermaid') return code
+
+      try {
+        return `<div class="graphviz-diagram">${await renderGraphviz(segment.code, colorMode)}</div>`
+      } catch {
+        return code
+      }
+    })
+  )
+  return parts.join('')
+}
@@ -0,0 +1,75 @@
+const DB_NAME = 'poe-editor'
+const DB_VERSION = 2
+
+/** Object store holding documents saved to the local library */
+export const DOCUMENTS_STORE = 'documents'
+
+/** Object store holding version history snapshots, indexed by document key */
+export const SNAPSHOTS_STORE = 'snapshots'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Wraps an IndexedDB request in a promise
+ * @param request - The request to wrap
+ * @returns Promise resolving with the request result
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+  })
+}
+
+/**
+ * Opens (and upgrades if needed) the app database.
+ * The connection is shared across callers once opened.
+ * @returns Promise resolving with the database connection
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise
+
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'))
+  }
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+        db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' })
+        snapshots.createIndex('documentKey', 'documentKey')
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      databasePromise = null
+      reject(request.error ?? new Error('Failed to open IndexedDB'))
+    }
+  })
+
+  return databasePromise
+}
+
+/**
+ * Runs a single request against an object store inside its own transaction
+ * @param storeName - The object store to use
+ * @param mode - Transaction mode
+ * @param operation - Callback that issues the request against the store
+ * @returns Promise resolving with the request result
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, mode)
+  return requestToPromise(operation(transaction.objectStore(storeName)))
+}
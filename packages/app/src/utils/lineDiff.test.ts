@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, getDiffStats } from './lineDiff'
+
+describe('lineDiff', () => {
+  describe('diffLines', () => {
+    it('should mark identical text as unchanged', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([
+        { type: 'unchanged', text: 'a' },
+        { type: 'unchanged', text: 'b' },
+      ])
+    })
+
+    it('should detect added lines', () => {
+      expect(diffLines('a\nc', 'a\nb\nc')).toEqual([
+        { type: 'unchanged', text: 'a' },
+        { type: 'added', text: 'b' },
+        { type: 'unchanged', text: 'c' },
+      ])
+    })
+
+    it('should detect removed lines', () => {
+      expect(diffLines('a\nb\nc', 'a\nc')).toEqual([
+        { type: 'unchanged', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'unchanged', text: 'c' },
+      ])
+    })
+
+    it('should show a changed line as removed then added', () => {
+      expect(diffLines('# Title\nold\nend', '# Title\nnew\nend')).toEqual([
+        { type: 'unchanged', text: '# Title' },
+        { type: 'removed', text: 'old' },
+        { type: 'added', text: 'new' },
+        { type: 'unchanged', text: 'end' },
+      ])
+    })
+
+    it('should keep common lines between scattered edits', () => {
+      const diff = diffLines('a\nb\nc\nd\ne', 'x\nb\nc\ny\ne')
+      expect(diff.filter((l) => l.type === 'unchanged').map((l) => l.text)).toEqual(['b', 'c', 'e'])
+    })
+  })
+
+  describe('getDiffStats', () => {
+    it('should count added and removed lines', () => {
+      expect(getDiffStats(diffLines('a\nb\nc', 'a\nx\ny\nc'))).toEqual({ added: 2, removed: 1 })
+    })
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * A single line in a line-based diff
+ */
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged'
+  text: string
+}
+
+/**
+ * Summary counts for a diff
+ */
+export interface DiffStats {
+  added: number
+  removed: number
+}
+
+/** Above this many cells the LCS table gets too large, so the middle is replaced wholesale */
+const MAX_LCS_CELLS = 4_000_000
+
+/**
+ * Computes a line-based diff from `before` to `after` using longest common subsequence.
+ * Common leading and trailing lines are matched first to keep the LCS table small.
+ * @param before - The original text
+ * @param after - The updated text
+ * @returns Diff lines in document order
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'unchanged', text }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach((text) => result.push({ type: 'removed', text }))
+    midB.forEach((text) => result.push({ type: 'added', text }))
+  } else {
+    result.push(...diffMiddle(midA, midB))
+  }
+
+  a.slice(endA).forEach((text) => result.push({ type: 'unchanged', text }))
+  return result
+}
+
+/**
+ * Runs the LCS table over the differing middle section
+ * @param a - Original lines
+ * @param b - Updated lines
+ * @returns Diff lines for the section
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const table = new Uint32Array(rows * cols)
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', text: a[i] })
+      i++
+      j++
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      result.push({ type: 'removed', text: a[i++] })
+    } else {
+      result.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) result.push({ type: 'added', text: b[j++] })
+
+  return result
+}
+
+/**
+ * Counts added and removed lines in a diff
+ * @param diff - The diff to summarise
+ * @returns Added and removed line counts
+ */
+export function getDiffStats(diff: DiffLine[]): DiffStats {
+  return diff.reduce<DiffStats>(
+    (stats, line) => {
+      if (line.type === 'added') stats.added++
+      if (line.type === 'removed') stats.removed++
+      return stats
+    },
+    { added: 0, removed: 0 }
+  )
+}
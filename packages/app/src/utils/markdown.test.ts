@@ -1,11 +1,20 @@
 import { describe, it, expect } from 'vitest'
-import { renderMarkdown, getFirstHeading } from './markdown'
+import { slugify } from './slug'
+import {
+  renderMarkdown,
+  getFirstHeading,
+  getDocumentTitle,
+  getHeadings,
+  getFencedCode,
+  renderMarkdownBlocks,
+  DEFAULT_MARKDOWN_EXTENSIONS,
+} from './markdown'
 
 describe('renderMarkdown', () => {
   it('should render basic markdown', () => {
     const markdown = '# Hello\n\n**Bold** and *Italic*'
     const html = renderMarkdown(markdown)
-    expect(html).toContain('<h1>Hello</h1>')
+    expect(html).toMatch(/<h1 id="hello">.*Hello<\/h1>/)
     expect(html).toContain('<strong>Bold</strong>')
     expect(html).toContain('<em>Italic</em>')
   })
@@ -36,6 +45,213 @@ describe('renderMarkdown', () => {
   })
 })
 
+describe('front matter', () => {
+  it('should hide front matter from the rendered output', () => {
+    const html = renderMarkdown('---\ntitle: Notes\n# not a heading\n---\n\nBody text')
+    expect(html).not.toContain('<hr>')
+    expect(html).not.toContain('title: Notes')
+    expect(html).toBe('<p>Body text</p>\n')
+  })
+
+  it('should render a later thematic break normally', () => {
+    expect(renderMarkdown('Intro\n\n---\n\nMore')).toContain('<hr>')
+  })
+
+  it('should not treat front matter comments as headings', () => {
+    expect(getFirstHeading('---\n# comment\n---\n## Real')).toBe('Real')
+  })
+
+  it('should prefer the front matter title over the first heading', () => {
+    expect(getDocumentTitle('---\ntitle: From Meta\n---\n# Heading')).toBe('From Meta')
+    expect(getDocumentTitle('# Heading')).toBe('Heading')
+  })
+
+  it('should render a document that opens with a horizontal rule', () => {
+    const slides = '---\n\n# Slide 1\n\nIntro\n\n---\n\n# Slide 2'
+    expect(getDocumentTitle(slides)).toBe('Slide 1')
+    expect(renderMarkdown(slides)).toMatch(/^<hr>\n<h1 id="slide-1"[\s\S]*<p>Intro<\/p>/)
+  })
+})
+
+describe('syntax extensions', () => {
+  it('should render footnotes with links back to the reference', () => {
+    const html = renderMarkdown('Claim[^1].\n\n[^1]: Source.')
+    expect(html).toContain('<a href="#fn1" id="fnref1">[1]</a>')
+    expect(html).toContain('<li id="fn1" class="footnote-item">')
+  })
+
+  it('should render definition lists', () => {
+    expect(renderMarkdown('Term\n: Meaning')).toContain('<dl>\n<dt>Term</dt>\n<dd>Meaning</dd>')
+  })
+
+  it('should render sub, sup, mark and abbreviations', () => {
+    const html = renderMarkdown('H~2~O x^2^ ==hot== HTML\n\n*[HTML]: HyperText Markup Language')
+    expect(html).toContain('H<sub>2</sub>O')
+    expect(html).toContain('x<sup>2</sup>')
+    expect(html).toContain('<mark>hot</mark>')
+    expect(html).toContain('<abbr title="HyperText Markup Language">HTML</abbr>')
+  })
+
+  it('should leave disabled extensions as plain text', () => {
+    const html = renderMarkdown('==hot== H~2~O', {
+      ...DEFAULT_MARKDOWN_EXTENSIONS,
+      mark: false,
+    })
+    expect(html).toBe('<p>==hot== H<sub>2</sub>O</p>\n')
+  })
+})
+
+describe('emoji shortcodes', () => {
+  it('should render known shortcodes as emoji', () => {
+    expect(renderMarkdown('Ship it :rocket:')).toBe('<p>Ship it 🚀</p>\n')
+  })
+
+  it('should leave unknown shortcodes and code alone', () => {
+    expect(renderMarkdown(':nope: `:rocket:`')).toBe('<p>:nope: <code>:rocket:</code></p>\n')
+  })
+
+  it('should keep emoji in heading outline text', () => {
+    expect(getHeadings('# :rocket: Launch')[0]).toMatchObject({ text: '🚀 Launch', id: 'launch' })
+  })
+})
+
+describe('table of contents', () => {
+  it('should give headings unique ids', () => {
+    const html = renderMarkdown('# Intro\n\n## Intro\n\n## *Set up* `npm`')
+    expect(html).toContain('<h1 id="intro">')
+    expect(html).toContain('<h2 id="intro-1">')
+    expect(html).toContain('<h2 id="set-up-npm">')
+  })
+
+  it('should add a permalink to each heading', () => {
+    expect(renderMarkdown('## Set up')).toBe(
+      '<h2 id="set-up"><a class="anchor" aria-hidden="true" tabindex="-1" href="#set-up">' +
+        '<span class="octicon octicon-link"></span></a>Set up</h2>\n'
+    )
+  })
+
+  it('should use the same slugs as the slugify transformer', () => {
+    const heading = 'Étude: Node.js & "APIs"_v2'
+    expect(renderMarkdown(`# ${heading}`)).toContain(`id="${slugify(heading)}"`)
+  })
+
+  it('should render [[toc]] as nested links to the headings', () => {
+    const html = renderMarkdown('[[toc]]\n\n# One\n\n## Two\n\n# Three')
+    expect(html).toContain('<nav class="table-of-contents">')
+    expect(html).toContain('<li><a href="#one">One</a><ul>\n<li><a href="#two">Two</a></li>\n</ul>')
+    expect(html).toContain('<li><a href="#three">Three</a></li>')
+    expect(html).not.toContain('[[toc]]')
+  })
+
+  it('should leave [[toc]] inside other text alone', () => {
+    expect(renderMarkdown('See [[toc]] here\n\n# One')).toContain('See [[toc]] here')
+  })
+})
+
+describe('renderMarkdownBlocks', () => {
+  const document = [
+    '---',
+    'title: Runbook',
+    '---',
+    '[[toc]]',
+    '',
+    '# Steps',
+    '',
+    '- [ ] Check *logs*',
+    '- [x] Restart',
+    '',
+    '```js',
+    'const a = 1',
+    '```',
+    '',
+    'Claim[^1] and [link][ref].',
+    '',
+    '[ref]: https://example.com',
+    '[^1]: Source.',
+  ].join('\n')
+
+  it('should join into the same HTML as renderMarkdown', () => {
+    expect(
+      renderMarkdownBlocks(document)
+        .map((block) => block.html)
+        .join('')
+        .replace(/ data-line-offset="\d+"/g, '')
+    ).toBe(renderMarkdown(document))
+  })
+
+  it('should mark nested blocks with their offset from the block start', () => {
+    const [, list] = renderMarkdownBlocks(
+      '# A\n\n- one\n\n  more\n- two\n\n  | a |\n  | - |\n  | b |'
+    )
+    expect(list.html).toContain('<li data-line-offset="0">\n<p data-line-offset="0">one</p>')
+    expect(list.html).toContain('<p data-line-offset="2">more</p>')
+    expect(list.html).toContain('<li data-line-offset="3">')
+    expect(list.html).toContain('<tr data-line-offset="7">')
+    expect(renderMarkdown('- one')).not.toContain('data-line-offset')
+  })
+
+  it('should not mark blocks inside generated footnotes', () => {
+    const blocks = renderMarkdownBlocks('Claim[^1]\n\n[^1]: Source.\n\n- text')
+    const footnotes = blocks[blocks.length - 1]
+    expect(footnotes.lines).toBeNull()
+    expect(footnotes.html).toContain('<p>Source.')
+    expect(footnotes.html).not.toContain('data-line-offset')
+  })
+
+  it('should split top-level blocks with their source lines', () => {
+    const blocks = renderMarkdownBlocks('# A\n\n- one\n- two\n\ntext')
+    expect(blocks.map((block) => block.lines)).toEqual([
+      [0, 1],
+      // List maps include the blank line that ends them
+      [2, 5],
+      [5, 6],
+    ])
+    expect(blocks[1].html).toBe(
+      '<ul>\n<li data-line-offset="0">one</li>\n<li data-line-offset="1">two</li>\n</ul>\n'
+    )
+  })
+
+  it('should keep the hash of a block that only moved', () => {
+    const before = renderMarkdownBlocks('```js\nx\n```')
+    const after = renderMarkdownBlocks('New intro\n\n```js\nx\n```')
+    expect(after[1].hash).toBe(before[0].hash)
+    expect(after[1].lines).toEqual([2, 5])
+    expect(renderMarkdownBlocks('```js\ny\n```')[0].hash).not.toBe(before[0].hash)
+  })
+
+  it('should render [[toc]] from headings in other blocks', () => {
+    const [toc] = renderMarkdownBlocks('[[toc]]\n\n# One')
+    expect(toc.html).toContain('<a href="#one">One</a>')
+  })
+})
+
+describe('getHeadings', () => {
+  it('should list headings with levels, ids and source lines', () => {
+    expect(getHeadings('---\ntitle: x\n---\n# A\n\ntext\n\n### B')).toEqual([
+      { level: 1, text: 'A', id: 'a', line: 4 },
+      { level: 3, text: 'B', id: 'b', line: 8 },
+    ])
+  })
+
+  it('should ignore hashes in code blocks', () => {
+    expect(getHeadings('```\n# nope\n```')).toEqual([])
+  })
+})
+
+describe('getFencedCode', () => {
+  it('should list fences with their language and first code line', () => {
+    expect(getFencedCode('---\ntitle: x\n---\n\n```mermaid graph\ngraph TD\n```')).toEqual([
+      { language: 'mermaid', code: 'graph TD\n', line: 6, endLine: 7 },
+    ])
+  })
+
+  it('should find fences nested in quotes', () => {
+    expect(getFencedCode('> ```js\n> let a\n> ```')).toEqual([
+      { language: 'js', code: 'let a\n', line: 2, endLine: 3 },
+    ])
+  })
+})
+
 describe('getFirstHeading', () => {
   it('should extract h1', () => {
     expect(getFirstHeading('# Hello World')).toBe('Hello World')
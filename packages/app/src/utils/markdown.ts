@@ -1,20 +1,409 @@
-import MarkdownIt from 'markdown-it'
+import MarkdownIt, { type PluginSimple } from 'markdown-it'
 import highlightjs from 'markdown-it-highlightjs'
+import footnote from 'markdown-it-footnote'
+import deflist from 'markdown-it-deflist'
+import sub from 'markdown-it-sub'
+import sup from 'markdown-it-sup'
+import mark from 'markdown-it-mark'
+import abbr from 'markdown-it-abbr'
+import { bare as emoji } from 'markdown-it-emoji'
+import { extractFrontMatter, getFrontMatterTitle } from '@/utils/frontMatter'
+import { createSlugger } from '@/utils/slug'
+import { EMOJI_SHORTCODES } from '@/utils/emoji'
+import { mathPlugin } from '@/utils/markdownMath'
+import { rawHtmlPlugin } from '@/utils/markdownHtml'
+import { codeBlockPlugin } from '@/utils/markdownCodeBlocks'
+import { chartPlugin } from '@/utils/markdownChart'
+import { csvTablePlugin } from '@/utils/markdownCsv'
+import { alertsPlugin, detailsPlugin } from '@/utils/markdownCallouts'
+import { taskListPlugin, countTasks, type TaskProgress } from '@/utils/markdownTasks'
 
-const md = new MarkdownIt({
-  html: false,
-  linkify: true,
-  typographer: true,
-}).use(highlightjs)
+type Token = ReturnType<MarkdownIt['parse']>[number]
+
+/**
+ * A heading in the document outline
+ */
+export interface HeadingEntry {
+  level: number
+  /** Plain heading text without inline markup */
+  text: string
+  /** Anchor id rendered on the heading element */
+  id: string
+  /** 1-based source line of the heading */
+  line: number
+}
+
+/**
+ * A fenced code block in the source
+ */
+export interface FencedCode {
+  /** Language from the info string, e.g. `mermaid` */
+  language: string
+  code: string
+  /** 1-based source line of the first line of code, after the opening fence */
+  line: number
+  /** 1-based source line of the closing fence, or the last line if it is unclosed */
+  endLine: number
+}
+
+/**
+ * A top-level block of the document rendered on its own, such as a paragraph, list or fence
+ */
+export interface MarkdownBlock {
+  /** Hash of the block's parsed tokens; unchanged blocks keep their hash when lines shift */
+  hash: string
+  /** 0-based `[start, end)` source lines, or null for generated blocks like the footnote list */
+  lines: [number, number] | null
+  html: string
+}
+
+/**
+ * Optional syntax extensions, each of which can be switched off in the editor preferences
+ */
+export interface MarkdownExtensions {
+  /** `[^1]` references with a footnote list at the end */
+  footnotes: boolean
+  /** `Term` followed by `: Definition` lines */
+  definitionLists: boolean
+  /** `H~2~O` */
+  subscript: boolean
+  /** `x^2^` */
+  superscript: boolean
+  /** `==highlight==` */
+  mark: boolean
+  /** `*[HTML]: HyperText Markup Language` */
+  abbreviations: boolean
+  /** Inline HTML such as `<kbd>` and `<details>`, sanitized against an allow-list */
+  rawHtml: boolean
+}
+
+export const DEFAULT_MARKDOWN_EXTENSIONS: MarkdownExtensions = {
+  footnotes: true,
+  definitionLists: true,
+  subscript: true,
+  superscript: true,
+  mark: true,
+  abbreviations: true,
+  rawHtml: false,
+}
+
+const EXTENSION_PLUGINS: Record<keyof MarkdownExtensions, PluginSimple> = {
+  footnotes: footnote,
+  definitionLists: deflist,
+  subscript: sub,
+  superscript: sup,
+  mark,
+  abbreviations: abbr,
+  rawHtml: rawHtmlPlugin,
+}
+
+/** Marker paragraph replaced with an inline table of contents */
+const TOC_MARKER = /^\[\[toc\]\]$/i
+
+/**
+ * Consumes front matter at the top of the document so it isn't rendered as a
+ * horizontal rule and paragraph. The token keeps the block's line map.
+ * @param md - The markdown-it instance
+ */
+function frontMatterPlugin(md: MarkdownIt): void {
+  md.block.ruler.before('hr', 'front_matter', (state, startLine, _endLine, silent) => {
+    if (startLine !== 0 || state.blkIndent !== 0 || state.sCount[startLine] !== 0) return false
+
+    const { frontMatter } = extractFrontMatter(state.src)
+    if (!frontMatter) return false
+    if (silent) return true
+
+    const token = state.push('front_matter', '', 0)
+    token.content = frontMatter.raw
+    token.info = frontMatter.format
+    token.map = [0, frontMatter.lineCount]
+    token.block = true
+    state.line = frontMatter.lineCount
+    return true
+  })
+
+  md.renderer.rules.front_matter = () => ''
+}
+
+/**
+ * Collects the plain text of an inline token, skipping markup such as emphasis and link urls
+ * @param inline - The inline token following a heading_open token
+ * @returns The visible text
+ */
+function getInlineText(inline: Token | undefined): string {
+  if (!inline?.children) return inline?.content ?? ''
+  return inline.children
+    .filter((child) => ['text', 'code_inline', 'emoji'].includes(child.type))
+    .map((child) => child.content)
+    .join('')
+}
+
+/**
+ * Lists headings from parsed tokens, using the ids added by `headingAnchorsPlugin`
+ * @param tokens - Tokens from `md.parse`
+ * @returns Headings in document order
+ */
+function collectHeadings(tokens: Token[]): HeadingEntry[] {
+  const headings: HeadingEntry[] = []
+  tokens.forEach((token, i) => {
+    if (token.type !== 'heading_open') return
+    headings.push({
+      level: Number(token.tag.slice(1)),
+      text: getInlineText(tokens[i + 1]),
+      id: token.attrGet('id') ?? '',
+      line: (token.map?.[0] ?? 0) + 1,
+    })
+  })
+  return headings
+}
+
+/**
+ * Gives every heading a unique slug id and a permalink icon shown on hover.
+ * The icon is drawn by github-markdown-css from the `octicon-link` class.
+ * @param md - The markdown-it instance
+ */
+function headingAnchorsPlugin(md: MarkdownIt): void {
+  md.core.ruler.push('heading_ids', (state) => {
+    const slug = createSlugger()
+    state.tokens.forEach((token, i) => {
+      if (token.type === 'heading_open') {
+        token.attrSet('id', slug(getInlineText(state.tokens[i + 1])))
+      }
+    })
+  })
+
+  md.renderer.rules.heading_open = (tokens, idx, options, _env, self) => {
+    const id = tokens[idx].attrGet('id')
+    const heading = self.renderToken(tokens, idx, options)
+    if (!id) return heading
+
+    const href = `#${md.utils.escapeHtml(id)}`
+    return `${heading}<a class="anchor" aria-hidden="true" tabindex="-1" href="${href}"><span class="octicon octicon-link"></span></a>`
+  }
+}
+
+/**
+ * Renders a `[[toc]]` paragraph as a nested list of links to the document's headings
+ * @param md - The markdown-it instance
+ */
+function tocPlugin(md: MarkdownIt): void {
+  md.block.ruler.before('paragraph', 'toc', (state, startLine, _endLine, silent) => {
+    if (state.sCount[startLine] - state.blkIndent >= 4) return false
+
+    const line = state.src.slice(
+      state.bMarks[startLine] + state.tShift[startLine],
+      state.eMarks[startLine]
+    )
+    if (!TOC_MARKER.test(line.trim())) return false
+    if (silent) return true
+
+    const token = state.push('toc', 'nav', 0)
+    token.map = [startLine, startLine + 1]
+    token.block = true
+    state.line = startLine + 1
+    return true
+  })
+
+  // Blocks are rendered separately, so give the marker its own copy of the headings
+  md.core.ruler.push('toc_headings', (state) => {
+    const tocTokens = state.tokens.filter((token) => token.type === 'toc')
+    if (tocTokens.length === 0) return
+    const headings = collectHeadings(state.tokens)
+    for (const token of tocTokens) token.meta = { headings }
+  })
+
+  md.renderer.rules.toc = (tokens, idx) => {
+    const headings: HeadingEntry[] = tokens[idx].meta.headings
+    if (headings.length === 0) return ''
+
+    const escape = md.utils.escapeHtml
+    const levels: number[] = []
+    let html = '<nav class="table-of-contents">\n'
+
+    for (const heading of headings) {
+      if (levels.length === 0 || heading.level > levels[levels.length - 1]) {
+        html += '<ul>\n'
+        levels.push(heading.level)
+      } else {
+        while (levels.length > 1 && heading.level < levels[levels.length - 1]) {
+          html += '</li>\n</ul>\n'
+          levels.pop()
+        }
+        html += '</li>\n'
+      }
+      html += `<li><a href="#${escape(heading.id)}">${escape(heading.text)}</a>`
+    }
+
+    html += '</li>\n</ul>\n'.repeat(levels.length)
+    return html + '</nav>\n'
+  }
+}
+
+/**
+ * Marks nested blocks such as list items, paragraphs and table rows with their line
+ * offset from the start of their top-level block, so the preview can map elements back
+ * to source lines. Offsets are relative, so a block's HTML stays cacheable when edits
+ * above it shift its lines. Only runs when the `lineOffsets` env flag is set.
+ * @param md - The markdown-it instance
+ */
+function lineOffsetsPlugin(md: MarkdownIt): void {
+  md.core.ruler.push('line_offsets', (state) => {
+    if (!state.env.lineOffsets) return
+
+    let depth = 0
+    // Generated blocks such as the footnote list have no map, so nothing in them is marked
+    let blockStart: number | null = null
+    for (const token of state.tokens) {
+      if (depth === 0) {
+        blockStart = token.map?.[0] ?? null
+      } else if (token.nesting === 1 && token.map && blockStart !== null) {
+        token.attrSet('data-line-offset', String(token.map[0] - blockStart))
+      }
+      depth += token.nesting
+    }
+  })
+}
+
+/**
+ * Creates a markdown-it instance with the core plugins and the enabled extensions
+ * @param extensions - Which optional syntax extensions to load
+ * @returns Configured markdown-it instance
+ */
+function createMarkdownIt(extensions: MarkdownExtensions): MarkdownIt {
+  const instance = new MarkdownIt({
+    html: false,
+    linkify: true,
+    typographer: true,
+  })
+    .use(highlightjs)
+    .use(codeBlockPlugin)
+    .use(chartPlugin)
+    .use(csvTablePlugin)
+    .use(frontMatterPlugin)
+    .use(emoji, { defs: EMOJI_SHORTCODES })
+
+  for (const [name, plugin] of Object.entries(EXTENSION_PLUGINS)) {
+    if (extensions[name as keyof MarkdownExtensions]) instance.use(plugin)
+  }
+
+  return instance
+    .use(headingAnchorsPlugin)
+    .use(tocPlugin)
+    .use(mathPlugin)
+    .use(taskListPlugin)
+    .use(alertsPlugin)
+    .use(detailsPlugin)
+    .use(lineOffsetsPlugin)
+}
+
+const md = createMarkdownIt(DEFAULT_MARKDOWN_EXTENSIONS)
+
+// One instance per extension combination, since plugins can't be removed once added
+const instances = new Map<string, MarkdownIt>([[JSON.stringify(DEFAULT_MARKDOWN_EXTENSIONS), md]])
+
+/**
+ * Returns the markdown-it instance for a set of extensions, creating it on first use
+ * @param extensions - Which optional syntax extensions to load
+ * @returns Cached markdown-it instance
+ */
+function getMarkdownIt(extensions: MarkdownExtensions): MarkdownIt {
+  const key = JSON.stringify({ ...DEFAULT_MARKDOWN_EXTENSIONS, ...extensions })
+  let instance = instances.get(key)
+  if (!instance) {
+    instance = createMarkdownIt(extensions)
+    instances.set(key, instance)
+  }
+  return instance
+}
 
 /**
  * Renders markdown text to HTML
  * @param markdown - The markdown text to render
+ * @param extensions - Optional syntax extensions to enable (default: all)
  * @returns HTML string (empty string if input is empty)
  */
-export function renderMarkdown(markdown: string): string {
+export function renderMarkdown(
+  markdown: string,
+  extensions: MarkdownExtensions = DEFAULT_MARKDOWN_EXTENSIONS
+): string {
   if (!markdown) return ''
-  return md.render(markdown)
+  return getMarkdownIt(extensions).render(markdown)
+}
+
+/**
+ * Hashes a string with 32-bit FNV-1a
+ * @param text - Text to hash
+ * @returns Hash as 8 hex digits
+ */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Groups parsed tokens into top-level blocks, each an opening token through its matching
+ * close token or a single self-contained token such as a fence
+ * @param tokens - Tokens from `md.parse`
+ * @returns Token runs in document order
+ */
+function splitTopLevelBlocks(tokens: Token[]): Token[][] {
+  const blocks: Token[][] = []
+  let start = 0
+  let depth = 0
+  tokens.forEach((token, i) => {
+    depth += token.nesting
+    if (depth === 0) {
+      blocks.push(tokens.slice(start, i + 1))
+      start = i + 1
+    }
+  })
+  return blocks
+}
+
+// Rendered HTML of the previous render's blocks, keyed by their serialized tokens
+const blockCaches = new WeakMap<MarkdownIt, Map<string, string>>()
+
+/**
+ * Renders markdown as separate top-level blocks. Blocks whose tokens are unchanged since
+ * the previous call reuse their HTML, so editing one paragraph doesn't re-highlight every
+ * code fence in the document. Nested elements carry a `data-line-offset` attribute;
+ * without those, the joined blocks' HTML equals `renderMarkdown`.
+ * @param markdown - The markdown text to render
+ * @param extensions - Optional syntax extensions to enable (default: all)
+ * @returns Rendered blocks in document order
+ */
+export function renderMarkdownBlocks(
+  markdown: string,
+  extensions: MarkdownExtensions = DEFAULT_MARKDOWN_EXTENSIONS
+): MarkdownBlock[] {
+  if (!markdown) return []
+
+  const instance = getMarkdownIt(extensions)
+  const previous = blockCaches.get(instance) ?? new Map<string, string>()
+  const cache = new Map<string, string>()
+  const env = { lineOffsets: true }
+  const tokens = instance.parse(markdown, env)
+
+  const blocks = splitTopLevelBlocks(tokens).map((blockTokens): MarkdownBlock => {
+    // Line maps are left out so blocks that only moved keep their cached HTML
+    const source = JSON.stringify(blockTokens, (key, value) => (key === 'map' ? undefined : value))
+    const html =
+      cache.get(source) ??
+      previous.get(source) ??
+      instance.renderer.render(blockTokens, instance.options, env)
+    cache.set(source, html)
+
+    // The opening token's map covers the whole block
+    const map = blockTokens[0].map
+    return { hash: hashString(source), lines: map ? [map[0], map[1]] : null, html }
+  })
+
+  blockCaches.set(instance, cache)
+  return blocks
 }
 
 /**
@@ -42,3 +431,50 @@ export function getFirstHeading(markdown: string): string | null {
 
   return null
 }
+
+/**
+ * Picks the document title: the front matter `title` field, otherwise the first heading
+ * @param markdown - The markdown text
+ * @returns The document title, or null if neither is present
+ */
+export function getDocumentTitle(markdown: string): string | null {
+  return getFrontMatterTitle(markdown) ?? getFirstHeading(markdown)
+}
+
+/**
+ * Lists the document's headings for the outline and table of contents
+ * @param markdown - The markdown text to parse
+ * @returns Headings in document order with their anchor ids and source lines
+ */
+export function getHeadings(markdown: string): HeadingEntry[] {
+  if (!markdown) return []
+  return collectHeadings(md.parse(markdown, {}))
+}
+
+/**
+ * Counts the document's task list items for the progress summary
+ * @param markdown - The markdown text to parse
+ * @returns Completed and total task counts
+ */
+export function getTaskProgress(markdown: string): TaskProgress {
+  if (!markdown) return { done: 0, total: 0 }
+  return countTasks(md.parse(markdown, {}))
+}
+
+/**
+ * Lists the document's fenced code blocks, including those nested in lists and quotes
+ * @param markdown - The markdown text to parse
+ * @returns Fences in document order with their source lines
+ */
+export function getFencedCode(markdown: string): FencedCode[] {
+  if (!markdown) return []
+  return md
+    .parse(markdown, {})
+    .filter((token) => token.type === 'fence' && token.map)
+    .map((token) => ({
+      language: token.info.trim().split(/\s+/)[0],
+      code: token.content,
+      line: token.map![0] + 2,
+      endLine: token.map![1],
+    }))
+}
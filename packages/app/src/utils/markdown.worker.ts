@@ -0,0 +1,26 @@
+import { renderDocument, type MarkdownRenderRequest } from '@/utils/markdownRender'
+
+// Only the newest request is rendered; requests that arrive while one is being
+// rendered replace each other, so fast typing doesn't queue up stale renders
+let pending: MarkdownRenderRequest | null = null
+
+/**
+ * Renders the newest pending request and posts the result back
+ */
+function flush(): void {
+  const request = pending
+  pending = null
+  if (!request) return
+
+  self.postMessage({
+    id: request.id,
+    rendered: renderDocument(request.markdown, request.extensions),
+  })
+}
+
+self.onmessage = (event: MessageEvent<MarkdownRenderRequest>): void => {
+  const scheduled = pending !== null
+  pending = event.data
+  // Yield first so any messages already queued can replace this one
+  if (!scheduled) setTimeout(flush, 0)
+}
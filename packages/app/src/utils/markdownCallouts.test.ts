@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { renderMarkdown } from './markdown'
+
+describe('GitHub alerts', () => {
+  it('renders each alert type with a title', () => {
+    for (const [marker, label] of [
+      ['NOTE', 'Note'],
+      ['TIP', 'Tip'],
+      ['IMPORTANT', 'Important'],
+      ['WARNING', 'Warning'],
+      ['CAUTION', 'Caution'],
+    ]) {
+      const html = renderMarkdown(`> [!${marker}]\n> Body`)
+      expect(html).toContain(`<div class="markdown-alert markdown-alert-${marker.toLowerCase()}">`)
+      expect(html).toMatch(new RegExp(`<p class="markdown-alert-title"><svg .*</svg>${label}</p>`))
+      expect(html).toContain('<p>Body</p>\n</div>')
+      expect(html).not.toContain('blockquote')
+    }
+  })
+
+  it('accepts lowercase markers and alerts without body text', () => {
+    const html = renderMarkdown('> [!tip]\n\nAfter')
+    expect(html).toContain('markdown-alert-tip')
+    expect(html).toContain('<p>After</p>')
+  })
+
+  it('leaves other blockquotes alone', () => {
+    expect(renderMarkdown('> [!TIP] same line')).toContain('<blockquote>')
+    expect(renderMarkdown('> [!UNKNOWN]\n> x')).toContain('<blockquote>')
+  })
+})
+
+describe('details containers', () => {
+  it('renders a collapsible section with a summary', () => {
+    expect(renderMarkdown('::: details Show *more*\nHidden\n:::')).toBe(
+      '<details>\n<summary>Show <em>more</em></summary>\n<p>Hidden</p>\n</details>\n'
+    )
+  })
+
+  it('uses a default summary', () => {
+    expect(renderMarkdown('::: details\nHidden\n:::')).toContain('<summary>Details</summary>')
+  })
+})
@@ -0,0 +1,117 @@
+import type MarkdownIt from 'markdown-it'
+import container from 'markdown-it-container'
+
+type Token = ReturnType<MarkdownIt['parse']>[number]
+
+type AlertType = 'note' | 'tip' | 'important' | 'warning' | 'caution'
+
+/** `[!NOTE]` and friends, alone on the first line of a blockquote */
+const ALERT_MARKER = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]$/i
+
+const SVG_ATTRIBUTES =
+  'viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" style="fill:none;margin-right:8px"'
+
+/** Title label and icon paths (Lucide) for each alert type */
+const ALERTS: Record<AlertType, { label: string; icon: string }> = {
+  note: {
+    label: 'Note',
+    icon: '<circle cx="12" cy="12" r="10"/><path d="M12 16v-4"/><path d="M12 8h.01"/>',
+  },
+  tip: {
+    label: 'Tip',
+    icon: '<path d="M15 14c.2-1 .7-1.7 1.5-2.5 1-.9 1.5-2.2 1.5-3.5A6 6 0 0 0 6 8c0 1 .2 2.2 1.5 3.5.7.7 1.3 1.5 1.5 2.5"/><path d="M9 18h6"/><path d="M10 22h4"/>',
+  },
+  important: {
+    label: 'Important',
+    icon: '<path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/><path d="M12 7v2"/><path d="M12 13h.01"/>',
+  },
+  warning: {
+    label: 'Warning',
+    icon: '<path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3"/><path d="M12 9v4"/><path d="M12 17h.01"/>',
+  },
+  caution: {
+    label: 'Caution',
+    icon: '<path d="M12 16h.01"/><path d="M12 8v4"/><path d="M15.312 2a2 2 0 0 1 1.414.586l4.688 4.688A2 2 0 0 1 22 8.688v6.624a2 2 0 0 1-.586 1.414l-4.688 4.688a2 2 0 0 1-1.414.586H8.688a2 2 0 0 1-1.414-.586l-4.688-4.688A2 2 0 0 1 2 15.312V8.688a2 2 0 0 1 .586-1.414l4.688-4.688A2 2 0 0 1 8.688 2z"/>',
+  },
+}
+
+/**
+ * Finds the blockquote_close token matching a blockquote_open
+ * @param tokens - Block tokens
+ * @param openIndex - Index of the blockquote_open token
+ * @returns Index of the matching close token, or -1
+ */
+function findBlockquoteClose(tokens: Token[], openIndex: number): number {
+  const level = tokens[openIndex].level
+  for (let i = openIndex + 1; i < tokens.length; i++) {
+    if (tokens[i].type === 'blockquote_close' && tokens[i].level === level) return i
+  }
+  return -1
+}
+
+/**
+ * Renders GitHub alerts (`> [!NOTE]`, `> [!TIP]`, `> [!IMPORTANT]`, `> [!WARNING]`,
+ * `> [!CAUTION]`) with the `markdown-alert` classes styled by github-markdown-css
+ * @param md - The markdown-it instance
+ */
+export function alertsPlugin(md: MarkdownIt): void {
+  md.core.ruler.push('github_alerts', (state) => {
+    const tokens = state.tokens
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].type !== 'blockquote_open' || tokens[i + 1]?.type !== 'paragraph_open') {
+        continue
+      }
+
+      const inline = tokens[i + 2]
+      const children = inline.children ?? []
+      const marker = children[0]?.type === 'text' && children[0].content.trim().match(ALERT_MARKER)
+      if (!marker || (children[1] && children[1].type !== 'softbreak')) continue
+
+      const close = findBlockquoteClose(tokens, i)
+      if (close === -1) continue
+
+      const type = marker[1].toLowerCase() as AlertType
+      const open = tokens[i]
+      open.tag = 'div'
+      open.attrJoin('class', `markdown-alert markdown-alert-${type}`)
+      tokens[close].tag = 'div'
+
+      const title = new state.Token('alert_title', 'p', 0)
+      title.meta = { type }
+      title.map = open.map
+
+      if (children.length > 2) {
+        // Text continues on the next line of the same paragraph
+        inline.children = children.slice(2)
+        inline.content = inline.content.replace(/^[^\n]*\n/, '')
+        tokens.splice(i + 1, 0, title)
+      } else {
+        // The marker was the whole paragraph
+        tokens.splice(i + 1, 3, title)
+      }
+    }
+  })
+
+  md.renderer.rules.alert_title = (tokens, idx) => {
+    const { label, icon } = ALERTS[tokens[idx].meta.type as AlertType]
+    return `<p class="markdown-alert-title"><svg ${SVG_ATTRIBUTES}>${icon}</svg>${label}</p>\n`
+  }
+}
+
+/**
+ * Renders `::: details Summary` ... `:::` as a collapsible `<details>` element
+ * @param md - The markdown-it instance
+ */
+export function detailsPlugin(md: MarkdownIt): void {
+  md.use(container, 'details', {
+    validate: (params: string) => /^details(\s|$)/.test(params.trim()),
+    render: (tokens: Token[], idx: number) => {
+      const token = tokens[idx]
+      if (token.nesting === -1) return '</details>\n'
+
+      const summary = token.info.trim().slice('details'.length).trim() || 'Details'
+      return `<details>\n<summary>${md.renderInline(summary)}</summary>\n`
+    },
+  })
+}
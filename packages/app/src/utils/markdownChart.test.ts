@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { renderMarkdown } from './markdown'
+
+describe('chartPlugin', () => {
+  it('renders chart fences as SVG figures', () => {
+    const html = renderMarkdown('```chart line\nMonth,Visits\nJan,10\nFeb,20\n```')
+
+    expect(html).toMatch(/^<figure class="chart"><svg [^>]*aria-label="line chart of Visits"/)
+    expect(html).not.toContain('<pre>')
+  })
+
+  it('adds the spec title as a caption', () => {
+    const html = renderMarkdown('```chart\n{"title": "A & B", "data": "a,b\\nx,1"}\n```')
+    expect(html).toContain('<figcaption>A &amp; B</figcaption>')
+  })
+
+  it('shows the error and source of invalid charts', () => {
+    const html = renderMarkdown('```chart\n<oops>\n```')
+
+    expect(html).toContain('<div class="chart-error"><p>Chart needs a header row and data rows</p>')
+    expect(html).toContain('<code>&lt;oops&gt;\n</code>')
+  })
+
+  it('leaves other fences to the highlighter', () => {
+    expect(renderMarkdown('```js\nlet a\n```')).toContain('language-js')
+  })
+})
@@ -0,0 +1,28 @@
+import type MarkdownIt from 'markdown-it'
+import { parseChart, renderChartSvg } from '@/utils/chart'
+
+/**
+ * Renders ```chart fences as SVG charts. The fence holds CSV or a JSON spec, and the
+ * info string may name the chart type (```chart line). Invalid data is shown as the
+ * source with the error above it, so the rest of the document still renders.
+ * @param md - The markdown-it instance
+ */
+export function chartPlugin(md: MarkdownIt): void {
+  const defaultFence = md.renderer.rules.fence!
+
+  md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+    const token = tokens[idx]
+    const [language, type] = token.info.trim().split(/\s+/)
+    if (language !== 'chart') return defaultFence(tokens, idx, options, env, self)
+
+    const escape = md.utils.escapeHtml
+    try {
+      const chart = parseChart(token.content, type)
+      const caption = chart.title ? `<figcaption>${escape(chart.title)}</figcaption>` : ''
+      return `<figure class="chart">${renderChartSvg(chart)}${caption}</figure>\n`
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return `<div class="chart-error"><p>${escape(message)}</p><pre><code>${escape(token.content)}</code></pre></div>\n`
+    }
+  }
+}
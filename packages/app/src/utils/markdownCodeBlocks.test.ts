@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { renderMarkdown } from './markdown'
+import { parseFenceInfo, splitHighlightedLines } from './markdownCodeBlocks'
+
+describe('parseFenceInfo', () => {
+  it('reads the title, highlighted lines and line numbers', () => {
+    expect(parseFenceInfo('ts title="api.ts" {3,5-7} showLineNumbers')).toEqual({
+      language: 'ts',
+      title: 'api.ts',
+      highlightLines: new Set([3, 5, 6, 7]),
+      showLineNumbers: true,
+    })
+  })
+
+  it('accepts single-quoted and bare titles', () => {
+    expect(parseFenceInfo("js title='my file.js'").title).toBe('my file.js')
+    expect(parseFenceInfo('js title=index.js').title).toBe('index.js')
+  })
+
+  it('defaults to no options', () => {
+    expect(parseFenceInfo('py')).toEqual({
+      language: 'py',
+      title: null,
+      highlightLines: new Set(),
+      showLineNumbers: false,
+    })
+  })
+})
+
+describe('splitHighlightedLines', () => {
+  it('closes and reopens spans that cross lines', () => {
+    expect(splitHighlightedLines('a<span class="c">/* x\ny */</span>\n')).toEqual([
+      'a<span class="c">/* x</span>',
+      '<span class="c">y */</span>',
+      '',
+    ])
+  })
+})
+
+describe('codeBlockPlugin', () => {
+  it('wraps fenced code with a copy button', () => {
+    const html = renderMarkdown('```js\nlet a\n```')
+    expect(html).toMatch(/^<div class="code-block"><pre><code class="hljs language-js">/)
+    expect(html).toContain('<button type="button" class="code-block-copy" aria-label="Copy code"')
+    expect(html).not.toContain('code-line')
+  })
+
+  it('renders the title, highlighted lines and line numbers', () => {
+    const html = renderMarkdown('```js title="<a>.js" {2} showLineNumbers\nlet a\nlet b\n```')
+    expect(html).toContain('<div class="code-block-title">&lt;a&gt;.js</div>')
+    expect(html).toContain('<pre class="line-numbers">')
+    expect(html).toMatch(/<span class="code-line">.*let.* a<\/span>\n/)
+    expect(html).toMatch(/<span class="code-line code-line-highlighted">.*let.* b<\/span>\n/)
+  })
+
+  it('colours added and removed diff lines', () => {
+    const html = renderMarkdown('```diff\n--- a.txt\n+++ b.txt\n-old\n+new\n same\n```')
+    expect(html.match(/code-line-deleted/g)).toHaveLength(1)
+    expect(html.match(/code-line-inserted/g)).toHaveLength(1)
+    expect(html).toContain('<span class="code-line"> same</span>')
+  })
+
+  it('leaves diagram fences as plain code', () => {
+    expect(renderMarkdown('```mermaid\ngraph TD\n```')).toMatch(
+      /^<pre><code class="hljs language-mermaid">/
+    )
+  })
+})
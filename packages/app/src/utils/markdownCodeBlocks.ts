@@ -0,0 +1,155 @@
+import type MarkdownIt from 'markdown-it'
+
+/** Options read from a fence info string such as `ts title="api.ts" {3,5-7} showLineNumbers` */
+export interface FenceMeta {
+  language: string
+  title: string | null
+  /** 1-based lines to emphasize */
+  highlightLines: Set<number>
+  showLineNumbers: boolean
+}
+
+// Diagram fences are replaced in the preview, which looks for their bare `<pre><code>`
+const DIAGRAM_LANGUAGES = ['mermaid', 'dot', 'graphviz']
+
+const COPY_ICON =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true"><rect width="14" height="14" x="8" y="8" rx="2" ry="2"/><path d="M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2"/></svg>'
+
+/** The per-block copy button, which only works in the preview */
+export const COPY_CODE_BUTTON =
+  /<button type="button" class="code-block-copy"[^>]*>[\s\S]*?<\/button>/g
+
+/**
+ * Code block styles for static HTML export, matching the preview's in `globals.css`.
+ * Colors come from the github-markdown-css variables, so both themes work.
+ */
+export const CODE_BLOCK_EXPORT_STYLES = `
+    .markdown-body .code-block { position: relative; margin-bottom: 16px; }
+    .markdown-body .code-block > pre { margin-bottom: 0; }
+    .markdown-body .code-block-title { padding: 6px 16px; border: 1px solid var(--borderColor-default); border-bottom: none; border-radius: 6px 6px 0 0; background-color: var(--bgColor-muted); color: var(--fgColor-muted); font-family: var(--fontStack-monospace, ui-monospace, monospace); font-size: 85%; }
+    .markdown-body .code-block-title + pre { border-top-left-radius: 0; border-top-right-radius: 0; }
+    .markdown-body .code-line { display: inline-block; box-sizing: content-box; min-width: 100%; margin: 0 -16px; padding: 0 16px; }
+    .markdown-body pre.line-numbers { counter-reset: code-line; }
+    .markdown-body pre.line-numbers .code-line::before { counter-increment: code-line; content: counter(code-line); display: inline-block; width: 2em; margin-right: 1em; color: var(--fgColor-muted); text-align: right; user-select: none; }
+    .markdown-body .code-line-highlighted { background-color: var(--bgColor-attention-muted); }
+    .markdown-body .code-line-inserted { background-color: var(--color-prettylights-syntax-markup-inserted-bg); }
+    .markdown-body .code-line-deleted { background-color: var(--color-prettylights-syntax-markup-deleted-bg); }`
+
+/**
+ * Reads a `{3,5-7}` line list
+ * @param list - Comma-separated line numbers and inclusive ranges
+ * @returns The listed lines
+ */
+function parseLineRanges(list: string): Set<number> {
+  const lines = new Set<number>()
+  for (const part of list.split(',')) {
+    const [start, end = start] = part.split('-').map((n) => Number(n.trim()))
+    // A typo like {1-99999999} shouldn't stall rendering
+    if (!Number.isInteger(start) || !Number.isInteger(end) || end - start > 10000) continue
+    for (let line = start; line <= end; line++) lines.add(line)
+  }
+  return lines
+}
+
+/**
+ * Parses a fence info string. The first word is the language; after it may come
+ * `title="name"`, a `{1,3-5}` list of lines to highlight and `showLineNumbers`.
+ * @param info - The text after the opening fence
+ * @returns The language and display options
+ */
+export function parseFenceInfo(info: string): FenceMeta {
+  const trimmed = info.trim()
+  const language = trimmed.split(/\s+/)[0]
+  const rest = trimmed.slice(language.length)
+  const title = rest.match(/(?:^|\s)title=(?:"([^"]*)"|'([^']*)'|(\S+))/)
+  const lines = rest.match(/\{([\d\s,-]+)\}/)
+
+  return {
+    language,
+    title: title ? (title[1] ?? title[2] ?? title[3]) : null,
+    highlightLines: lines ? parseLineRanges(lines[1]) : new Set(),
+    showLineNumbers: /(?:^|\s)showLineNumbers(?=\s|$)/.test(rest),
+  }
+}
+
+/**
+ * Splits highlighted HTML into lines, closing the spans still open at the end of each
+ * line and reopening them on the next, so every line is well-formed on its own
+ * @param html - highlight.js output
+ * @returns HTML for each line
+ */
+export function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = []
+  const open: string[] = []
+  let line = ''
+
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (part === '\n') {
+      lines.push(line + '</span>'.repeat(open.length))
+      line = open.join('')
+    } else {
+      if (part.startsWith('<span')) open.push(part)
+      else if (part === '</span>') open.pop()
+      line += part
+    }
+  }
+  lines.push(line)
+  return lines
+}
+
+/**
+ * Wraps each line of a code block in a span carrying its highlight and diff classes
+ * @param html - highlight.js output for the block
+ * @param code - The block's source
+ * @param meta - Options from the info string
+ * @returns HTML of the wrapped lines
+ */
+function renderCodeLines(html: string, code: string, meta: FenceMeta): string {
+  const sourceLines = code.replace(/\n$/, '').split('\n')
+  return splitHighlightedLines(html)
+    .slice(0, sourceLines.length)
+    .map((line, i) => {
+      const source = sourceLines[i]
+      const classes = ['code-line']
+      if (meta.highlightLines.has(i + 1)) classes.push('code-line-highlighted')
+      if (meta.language === 'diff') {
+        if (/^\+(?!\+\+ )/.test(source)) classes.push('code-line-inserted')
+        else if (/^-(?!-- )/.test(source)) classes.push('code-line-deleted')
+      }
+      return `<span class="${classes.join(' ')}">${line}</span>\n`
+    })
+    .join('')
+}
+
+/**
+ * Renders fenced code with a copy button and the options from its info string: a
+ * title bar, highlighted lines, line numbers, and added/removed colouring for ```diff.
+ * Diagram fences are left as plain code for the preview to replace.
+ * @param md - The markdown-it instance
+ */
+export function codeBlockPlugin(md: MarkdownIt): void {
+  const defaultFence = md.renderer.rules.fence!
+
+  md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+    const token = tokens[idx]
+    const html = defaultFence(tokens, idx, options, env, self)
+    const meta = parseFenceInfo(token.info)
+    if (DIAGRAM_LANGUAGES.includes(meta.language)) return html
+
+    const match = html.match(/^<pre><code([^>]*)>([\s\S]*)<\/code><\/pre>\n?$/)
+    if (!match) return html
+
+    const hasLines = meta.highlightLines.size > 0 || meta.showLineNumbers
+    const code =
+      hasLines || meta.language === 'diff'
+        ? renderCodeLines(match[2], token.content, meta)
+        : match[2]
+    const pre = meta.showLineNumbers ? '<pre class="line-numbers">' : '<pre>'
+    const title = meta.title
+      ? `<div class="code-block-title">${md.utils.escapeHtml(meta.title)}</div>`
+      : ''
+    const button = `<button type="button" class="code-block-copy" aria-label="Copy code" title="Copy code" data-copy-code>${COPY_ICON}</button>`
+
+    return `<div class="code-block">${title}${pre}<code${match[1]}>${code}</code></pre>${button}</div>\n`
+  }
+}
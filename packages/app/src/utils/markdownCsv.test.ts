@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { renderMarkdown } from './markdown'
+import { csvToMarkdownTable, parseCsvTable } from './markdownCsv'
+
+describe('parseCsvTable', () => {
+  it('splits the header from the rows and pads short rows', () => {
+    expect(parseCsvTable('Name, Score\nAda, 3\nBob\n', 'csv')).toEqual({
+      header: ['Name', 'Score'],
+      align: [null, null],
+      rows: [
+        ['Ada', '3'],
+        ['Bob', ''],
+      ],
+    })
+  })
+
+  it('reads an alignment row after the header', () => {
+    const table = parseCsvTable('a,b,c,d\n:--,:-:,--:,\n1,2,3,4\n', 'csv')
+    expect(table?.align).toEqual(['left', 'center', 'right', null])
+    expect(table?.rows).toEqual([['1', '2', '3', '4']])
+  })
+
+  it('does not treat an empty row as alignment', () => {
+    expect(parseCsvTable('a,b\n,\n1,2\n', 'csv')?.rows).toEqual([
+      ['', ''],
+      ['1', '2'],
+    ])
+  })
+
+  it('splits tsv on tabs only', () => {
+    expect(parseCsvTable('City\tPopulation\nParis, France\t2,100,000\n', 'tsv')?.rows).toEqual([
+      ['Paris, France', '2,100,000'],
+    ])
+  })
+
+  it('returns null for an empty fence', () => {
+    expect(parseCsvTable('\n', 'csv')).toBeNull()
+  })
+})
+
+describe('csvToMarkdownTable', () => {
+  it('formats the data as an aligned Markdown table', () => {
+    expect(csvToMarkdownTable('Name,Score\n:--,--:\nAda,3\nBob,12\n', 'csv')).toBe(
+      ['| Name | Score |', '| :--- | ----: |', '| Ada  | 3     |', '| Bob  | 12    |'].join('\n')
+    )
+  })
+
+  it('escapes pipes and joins multi-line cells', () => {
+    const table = csvToMarkdownTable('a,b\n"x|y","one\ntwo"\n', 'csv')
+    expect(table).toContain('x&#124;y')
+    expect(table).toContain('one two')
+  })
+})
+
+describe('csvTablePlugin', () => {
+  it('renders csv fences as tables with a header row', () => {
+    const html = renderMarkdown('```csv\nName,Score\n:--,--:\nAda,<b>3</b>\n```\n')
+    expect(html).toContain('<table class="csv-table">')
+    expect(html).toContain('<th style="text-align:left">Name</th>')
+    expect(html).toContain('<td style="text-align:right">&lt;b&gt;3&lt;/b&gt;</td>')
+    expect(html).not.toContain('<pre>')
+  })
+
+  it('renders tsv fences', () => {
+    const html = renderMarkdown('```tsv\na\tb\n1\t2\n```\n')
+    expect(html).toContain('<th>b</th>')
+    expect(html).toContain('<td>2</td>')
+  })
+
+  it('leaves other fences as code', () => {
+    expect(renderMarkdown('```js\na,b\n```\n')).toContain('<pre>')
+  })
+})
@@ -0,0 +1,113 @@
+import type MarkdownIt from 'markdown-it'
+import { detectDelimiter, parseCsv } from '@/utils/csv'
+import { formatMarkdownTable } from '@/utils/markdownTable'
+
+type ColumnAlign = 'left' | 'center' | 'right' | null
+
+/** Fence languages holding delimited data, rendered as tables */
+export const CSV_FENCE_LANGUAGES = ['csv', 'tsv']
+
+/** A delimited data fence parsed into a table */
+export interface CsvTable {
+  header: string[]
+  /** Per-column alignment from an optional `:--`, `:-:`, `--:` row after the header */
+  align: ColumnAlign[]
+  rows: string[][]
+}
+
+const ALIGN_CELL = /^:?-+:?$/
+
+/**
+ * Reads a Markdown-style alignment cell
+ * @param cell - e.g. `:--:`
+ * @returns The alignment, or null for the default
+ */
+function parseAlign(cell: string): ColumnAlign {
+  const left = cell.startsWith(':')
+  const right = cell.endsWith(':')
+  if (left && right) return 'center'
+  if (right) return 'right'
+  return left ? 'left' : null
+}
+
+/**
+ * Parses the body of a ```csv or ```tsv fence. The first row is the header; a second
+ * row of Markdown alignment markers (`:--`, `:-:`, `--:`) sets column alignment.
+ * Short rows are padded so every row has a cell per column.
+ * @param code - The fence content
+ * @param language - `csv` (delimiter sniffed, usually a comma) or `tsv`
+ * @returns The table, or null if the fence has no rows
+ */
+export function parseCsvTable(code: string, language: string): CsvTable | null {
+  const parsed = parseCsv(code, language === 'tsv' ? '\t' : detectDelimiter(code)).map((row) =>
+    row.map((cell) => cell.trim())
+  )
+  if (parsed.length === 0) return null
+
+  const width = Math.max(...parsed.map((row) => row.length))
+  const pad = (row: string[]): string[] => [...row, ...Array(width - row.length).fill('')]
+  const [header, ...rows] = parsed.map(pad)
+
+  const hasAlignRow =
+    rows.length > 0 &&
+    rows[0].some((cell) => ALIGN_CELL.test(cell)) &&
+    rows[0].every((cell) => !cell || ALIGN_CELL.test(cell))
+  return {
+    header,
+    align: hasAlignRow ? rows[0].map(parseAlign) : header.map(() => null),
+    rows: hasAlignRow ? rows.slice(1) : rows,
+  }
+}
+
+/**
+ * Converts a ```csv or ```tsv fence to a formatted Markdown table
+ * @param code - The fence content
+ * @param language - `csv` or `tsv`
+ * @returns Table text from `formatMarkdownTable`, or null if the fence has no rows
+ */
+export function csvToMarkdownTable(code: string, language: string): string | null {
+  const table = parseCsvTable(code, language)
+  if (!table) return null
+
+  // Pipes would split cells and line breaks would end the row
+  const cell = (value: string): string => value.replace(/\|/g, '&#124;').replace(/\s*\n\s*/g, ' ')
+  const separator = table.align.map((align) =>
+    align === 'center' ? ':-:' : align === 'right' ? '--:' : align === 'left' ? ':--' : '---'
+  )
+  const lines = [table.header.map(cell), separator, ...table.rows.map((row) => row.map(cell))]
+  return formatMarkdownTable(lines.map((row) => `| ${row.join(' | ')} |`).join('\n'))
+}
+
+/**
+ * Renders ```csv and ```tsv fences as HTML tables with a header row
+ * @param md - The markdown-it instance
+ */
+export function csvTablePlugin(md: MarkdownIt): void {
+  const defaultFence = md.renderer.rules.fence!
+
+  md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+    const token = tokens[idx]
+    const language = token.info.trim().split(/\s+/)[0]
+    if (!CSV_FENCE_LANGUAGES.includes(language))
+      return defaultFence(tokens, idx, options, env, self)
+
+    const table = parseCsvTable(token.content, language)
+    if (!table) return defaultFence(tokens, idx, options, env, self)
+
+    const escape = md.utils.escapeHtml
+    const row = (cells: string[], tag: 'th' | 'td'): string =>
+      '<tr>\n' +
+      cells
+        .map((value, i) => {
+          const style = table.align[i] ? ` style="text-align:${table.align[i]}"` : ''
+          return `<${tag}${style}>${escape(value)}</${tag}>\n`
+        })
+        .join('') +
+      '</tr>\n'
+
+    const body = table.rows.length
+      ? `<tbody>\n${table.rows.map((cells) => row(cells, 'td')).join('')}</tbody>\n`
+      : ''
+    return `<table class="csv-table">\n<thead>\n${row(table.header, 'th')}</thead>\n${body}</table>\n`
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { sanitizeHtml } from './markdownHtml'
+import { renderMarkdown, DEFAULT_MARKDOWN_EXTENSIONS } from './markdown'
+
+const WITH_HTML = { ...DEFAULT_MARKDOWN_EXTENSIONS, rawHtml: true }
+
+describe('sanitizeHtml', () => {
+  it('keeps allowed tags and attributes', () => {
+    expect(sanitizeHtml('<kbd>Ctrl</kbd><br/>')).toBe('<kbd>Ctrl</kbd><br>')
+    expect(sanitizeHtml('<img src="logo.png" align="right" width=80 alt=\'Logo\'>')).toBe(
+      '<img src="logo.png" align="right" width="80" alt="Logo">'
+    )
+    expect(sanitizeHtml('<details open><summary>More</summary>')).toBe(
+      '<details open><summary>More</summary>'
+    )
+  })
+
+  it('drops event handlers, styles and unknown attributes', () => {
+    expect(sanitizeHtml('<img src="a.png" onerror="alert(1)" style="x" class="y">')).toBe(
+      '<img src="a.png">'
+    )
+    expect(sanitizeHtml('<a href="/docs" target="_blank" onclick=alert(1)>Docs</a>')).toBe(
+      '<a href="/docs">Docs</a>'
+    )
+  })
+
+  it('removes scripts, styles and frames with their content', () => {
+    expect(sanitizeHtml('a<script>alert("<b>")</script>b')).toBe('ab')
+    expect(sanitizeHtml('<style>body{}</style><iframe src="x"></iframe>ok')).toBe('ok')
+    expect(sanitizeHtml('<svg onload=alert(1)><circle/></svg>')).toBe('')
+    expect(sanitizeHtml('before<script>never closed')).toBe('before')
+  })
+
+  it('drops comments, declarations and disallowed tags but keeps their text', () => {
+    expect(sanitizeHtml('<!-- note --><form><input value="x">Text</form>')).toBe('Text')
+  })
+
+  it('rejects unsafe URL schemes, including encoded ones', () => {
+    for (const href of [
+      'javascript:alert(1)',
+      'JaVaScRiPt:alert(1)',
+      'java\tscript:alert(1)',
+      'jav&#x61;script:alert(1)',
+      'javascript&colon;alert(1)',
+      'javascript&amp;#58;alert(1)',
+      'javascript&amp;colon;alert(1)',
+      'javascript&amp;#x3a;alert(1)',
+      'vbscript:x',
+      'data:text/html,<script>alert(1)</script>',
+    ]) {
+      expect(sanitizeHtml(`<a href="${href}">x</a>`)).toBe('<a>x</a>')
+    }
+  })
+
+  it('escapes character references left in decoded attribute values', () => {
+    expect(sanitizeHtml('<b title="a&amp;#58;b">x</b>')).toBe('<b title="a&amp;#58;b">x</b>')
+  })
+
+  it('allows web, mail and relative URLs and inline images', () => {
+    expect(sanitizeHtml('<a href="https://x.dev/?a=1&amp;b=2">x</a>')).toBe(
+      '<a href="https://x.dev/?a=1&amp;b=2">x</a>'
+    )
+    expect(sanitizeHtml('<a href="mailto:me@x.dev">x</a>')).toContain('href="mailto:me@x.dev"')
+    expect(sanitizeHtml('<a href="#intro">x</a>')).toContain('href="#intro"')
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA">')).toBe(
+      '<img src="data:image/png;base64,AAAA">'
+    )
+    expect(sanitizeHtml('<a href="data:image/png;base64,AAAA">x</a>')).toBe('<a>x</a>')
+  })
+
+  it('checks every srcset candidate', () => {
+    expect(sanitizeHtml('<source media="(prefers-color-scheme: dark)" srcset="d.png 1x">')).toBe(
+      '<source media="(prefers-color-scheme: dark)" srcset="d.png 1x">'
+    )
+    expect(sanitizeHtml('<source srcset="a.png 1x, javascript:x 2x">')).toBe('<source>')
+  })
+
+  it('escapes stray angle brackets and unterminated tags', () => {
+    expect(sanitizeHtml('<img src=x onerror=alert(1)')).toBe('&lt;img src=x onerror=alert(1)')
+    expect(sanitizeHtml('<b title="a > b">x</b>')).toBe('<b title="a &gt; b">x</b>')
+  })
+})
+
+describe('inline HTML extension', () => {
+  it('escapes HTML by default', () => {
+    expect(renderMarkdown('Press <kbd>Esc</kbd>')).toBe('<p>Press &lt;kbd&gt;Esc&lt;/kbd&gt;</p>\n')
+  })
+
+  it('renders sanitized inline and block HTML when enabled', () => {
+    expect(renderMarkdown('Press <kbd>Esc</kbd><br>now', WITH_HTML)).toBe(
+      '<p>Press <kbd>Esc</kbd><br>now</p>\n'
+    )
+
+    const html = renderMarkdown(
+      '<details>\n<summary>More</summary>\n\n**Hidden**\n\n</details>',
+      WITH_HTML
+    )
+    expect(html).toContain('<details>\n<summary>More</summary>')
+    expect(html).toContain('<p><strong>Hidden</strong></p>')
+  })
+
+  it('never renders scripts or event handlers', () => {
+    const html = renderMarkdown(
+      '<script>alert(1)</script>\n\n<img src="x.png" onerror="alert(1)">\n\nText <a href="javascript:alert(1)">link</a>',
+      WITH_HTML
+    )
+    expect(html).not.toContain('<script')
+    expect(html).not.toContain('onerror')
+    expect(html).not.toContain('javascript:')
+    expect(html).toContain('<img src="x.png">')
+  })
+})
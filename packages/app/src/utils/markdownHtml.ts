@@ -0,0 +1,281 @@
+import type MarkdownIt from 'markdown-it'
+
+/** Elements that raw HTML may use; anything else is dropped along with its attributes */
+const ALLOWED_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'bdo',
+  'blockquote',
+  'br',
+  'caption',
+  'center',
+  'cite',
+  'code',
+  'col',
+  'colgroup',
+  'dd',
+  'del',
+  'details',
+  'dfn',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'figcaption',
+  'figure',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'i',
+  'img',
+  'ins',
+  'kbd',
+  'li',
+  'mark',
+  'ol',
+  'p',
+  'picture',
+  'pre',
+  'q',
+  'rp',
+  'rt',
+  'ruby',
+  's',
+  'samp',
+  'small',
+  'source',
+  'span',
+  'strike',
+  'strong',
+  'sub',
+  'summary',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'time',
+  'tr',
+  'tt',
+  'u',
+  'ul',
+  'var',
+  'wbr',
+])
+
+/** Elements whose content is code or markup rather than text, so it is dropped with the tag */
+const RAW_TEXT_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'noembed',
+  'noframes',
+  'noscript',
+  'template',
+  'textarea',
+  'title',
+  'xmp',
+  'svg',
+  'math',
+])
+
+const GLOBAL_ATTRIBUTES = ['align', 'dir', 'lang', 'title']
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  blockquote: ['cite'],
+  col: ['span', 'width'],
+  colgroup: ['span', 'width'],
+  del: ['cite', 'datetime'],
+  details: ['open'],
+  img: ['src', 'srcset', 'alt', 'width', 'height', 'loading'],
+  ins: ['cite', 'datetime'],
+  ol: ['start', 'type', 'reversed'],
+  q: ['cite'],
+  source: ['srcset', 'media', 'type', 'width', 'height'],
+  td: ['colspan', 'rowspan', 'valign', 'width'],
+  th: ['colspan', 'rowspan', 'valign', 'width', 'scope'],
+  time: ['datetime'],
+}
+
+/** Attributes holding a single URL, checked against `ALLOWED_SCHEMES` */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite'])
+
+const ALLOWED_SCHEMES = new Set(['http', 'https', 'mailto', 'tel'])
+
+/** Inline images are fine in `src`; other data URLs (e.g. `text/html`) are not */
+const SAFE_DATA_IMAGE = /^data:image\/(?:png|gif|jpeg|webp|avif);/i
+
+const VOID_TAGS = new Set(['br', 'col', 'hr', 'img', 'source', 'wbr'])
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  colon: ':',
+  tab: '\t',
+  newline: '\n',
+}
+
+/** A start tag, end tag, comment or declaration */
+const MARKUP =
+  /<!--[\s\S]*?(?:-->|$)|<[!?][^>]*(?:>|$)|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g
+
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+/**
+ * Decodes the character references an attribute value may use to hide a scheme,
+ * such as `jav&#x61;script:` or `javascript&colon;`
+ * @param value - Raw attribute value
+ * @returns Decoded value
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, ref: string) => {
+    if (ref[0] === '#') {
+      const code =
+        ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : Number(ref.slice(1))
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : ''
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? entity
+  })
+}
+
+/**
+ * Escapes an attribute value. Every `&` is escaped, since the value is already decoded
+ * and a reference left in it would be decoded again by the browser.
+ * @param value - Decoded attribute value
+ * @returns Value safe to place in double quotes
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+/**
+ * Checks a URL against the allowed schemes. Relative URLs and fragments are allowed.
+ * @param url - Decoded URL
+ * @param allowDataImage - True for image sources, which may be inline `data:image/*`
+ * @returns Whether the URL is safe to keep
+ */
+export function isSafeUrl(url: string, allowDataImage: boolean): boolean {
+  // Decode until stable so a double-encoded scheme such as `javascript&amp;#58;` is seen too
+  let decoded = url
+  for (let previous = ''; decoded !== previous; ) {
+    previous = decoded
+    decoded = decodeEntities(decoded)
+  }
+  // Browsers ignore whitespace and control characters inside the scheme
+  // eslint-disable-next-line no-control-regex
+  const normalized = decoded.replace(/[\u0000- \u007f]/g, '')
+  const scheme = normalized.match(/^([^/?#]*?):/)
+  if (!scheme) return true
+  if (allowDataImage && SAFE_DATA_IMAGE.test(normalized)) return true
+  return ALLOWED_SCHEMES.has(scheme[1].toLowerCase())
+}
+
+/**
+ * Keeps the allowed attributes of a tag, dropping unsafe URLs
+ * @param tag - Lowercase tag name
+ * @param source - Attribute source between the tag name and `>`
+ * @returns Attribute string with a leading space per attribute
+ */
+function sanitizeAttributes(tag: string, source: string): string {
+  const allowed = [...GLOBAL_ATTRIBUTES, ...(TAG_ATTRIBUTES[tag] ?? [])]
+  const seen = new Set<string>()
+  let result = ''
+
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase()
+    if (!allowed.includes(name) || seen.has(name)) continue
+    seen.add(name)
+
+    const raw = match[2] ?? match[3] ?? match[4]
+    if (raw === undefined) {
+      result += ` ${name}`
+      continue
+    }
+
+    const value = decodeEntities(raw)
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value, tag === 'img' && name === 'src')) continue
+    if (
+      name === 'srcset' &&
+      !value.split(',').every((candidate) => isSafeUrl(candidate.trim().split(/\s+/)[0], false))
+    ) {
+      continue
+    }
+    result += ` ${name}="${escapeAttribute(value)}"`
+  }
+
+  return result
+}
+
+/**
+ * Sanitizes raw HTML against a strict allow-list of tags, attributes and URL schemes.
+ * Disallowed tags, comments and event handlers are removed; scripts and styles are
+ * removed with their content. Text between tags is kept as written.
+ * @param html - Raw HTML from the markdown source
+ * @returns HTML that can't run scripts or load active content
+ */
+export function sanitizeHtml(html: string): string {
+  let result = ''
+  let lastIndex = 0
+  // Raw text element being skipped, e.g. everything up to `</script>`
+  let skipUntil: string | null = null
+
+  for (const match of html.matchAll(MARKUP)) {
+    const [markup, slash, rawName, attributes] = match
+    const text = html.slice(lastIndex, match.index)
+    lastIndex = match.index + markup.length
+
+    if (!skipUntil) result += text.replace(/</g, '&lt;')
+    if (!rawName) continue
+
+    const tag = rawName.toLowerCase()
+    if (skipUntil) {
+      if (slash && tag === skipUntil) skipUntil = null
+      continue
+    }
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      if (!slash && !/\/\s*$/.test(attributes)) skipUntil = tag
+      continue
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue
+
+    if (slash) {
+      if (!VOID_TAGS.has(tag)) result += `</${tag}>`
+    } else {
+      result += `<${tag}${sanitizeAttributes(tag, attributes)}>`
+    }
+  }
+
+  if (!skipUntil) result += html.slice(lastIndex).replace(/</g, '&lt;')
+  return result
+}
+
+/**
+ * Enables inline HTML in markdown, passing every raw HTML block and tag through
+ * `sanitizeHtml` so the preview, exports and clipboard never carry active content
+ * @param md - The markdown-it instance
+ */
+export function rawHtmlPlugin(md: MarkdownIt): void {
+  md.set({ html: true })
+  md.renderer.rules.html_block = (tokens, idx) => sanitizeHtml(tokens[idx].content)
+  md.renderer.rules.html_inline = (tokens, idx) => sanitizeHtml(tokens[idx].content)
+}
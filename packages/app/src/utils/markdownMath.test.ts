@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { renderMarkdown } from './markdown'
+import { renderMath } from './markdownMath'
+
+describe('math rendering', () => {
+  it('renders inline formulas with KaTeX', () => {
+    const html = renderMarkdown('Euler: $e^{i\\pi} + 1 = 0$')
+    expect(html).toContain('<span class="katex">')
+    expect(html).toContain(
+      '<annotation encoding="application/x-tex">e^{i\\pi} + 1 = 0</annotation>'
+    )
+  })
+
+  it('renders $$ blocks in display mode', () => {
+    const html = renderMarkdown('$$\na^2 + b^2\n$$\n\nAfter')
+    expect(html).toContain('<div class="math-block"><span class="katex-display">')
+    expect(html).toContain('<p>After</p>')
+  })
+
+  it('leaves prices and escaped dollars as text', () => {
+    expect(renderMarkdown('It costs $5 and $10')).toBe('<p>It costs $5 and $10</p>\n')
+    expect(renderMarkdown('\\$x\\$')).toBe('<p>$x$</p>\n')
+  })
+
+  it('does not render math inside code', () => {
+    expect(renderMarkdown('`$x$`')).toBe('<p><code>$x$</code></p>\n')
+  })
+
+  it('leaves an unclosed block as text', () => {
+    expect(renderMarkdown('$$\nx')).toBe('<p>$$\nx</p>\n')
+  })
+
+  it('renders invalid formulas as an inline error', () => {
+    const html = renderMarkdown('Before $\\frac{$ after\n\n$x$')
+    expect(html).toContain('class="katex-error"')
+    expect(html).toContain(' after')
+    expect(html).toContain('<span class="katex">')
+  })
+})
+
+describe('renderMath', () => {
+  it('highlights unknown commands instead of throwing', () => {
+    const html = renderMath('\\fake < 1', false)
+    expect(html).toContain('color:#cc0000')
+    expect(html).toContain('&lt;')
+  })
+})
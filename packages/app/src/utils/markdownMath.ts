@@ -0,0 +1,144 @@
+import type MarkdownIt from 'markdown-it'
+import katex from 'katex'
+
+/** Stylesheet for exported HTML; keep in step with the installed katex version */
+export const KATEX_STYLESHEET_URL = 'https://cdn.jsdelivr.net/npm/katex@0.16.47/dist/katex.min.css'
+
+/**
+ * Renders a TeX formula to KaTeX HTML. Invalid input is rendered as an inline
+ * error for that formula only, so the rest of the document still renders.
+ * @param tex - The formula source without delimiters
+ * @param displayMode - True for `$$` display math
+ * @returns KaTeX HTML, or an escaped error element
+ */
+export function renderMath(tex: string, displayMode: boolean): string {
+  try {
+    return katex.renderToString(tex, { displayMode, throwOnError: false, output: 'htmlAndMathml' })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return `<code class="katex-error" title="${escapeHtml(message)}">${escapeHtml(tex)}</code>`
+  }
+}
+
+/**
+ * Escapes text for use in HTML content and attributes
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Finds the closing `$` of inline math, skipping escaped dollars
+ * @param src - Inline source
+ * @param start - Index just past the opening delimiter
+ * @returns Index of the closing `$`, or -1
+ */
+function findInlineClose(src: string, start: number): number {
+  for (let pos = start; pos < src.length; pos++) {
+    if (src[pos] === '\\') {
+      pos++
+      continue
+    }
+    if (src[pos] !== '$') continue
+
+    // Like Pandoc: no space before the closing dollar and no digit after it ("$5 and $10")
+    if (/\s/.test(src[pos - 1]) || /\d/.test(src[pos + 1] ?? '')) continue
+    return pos
+  }
+  return -1
+}
+
+/**
+ * Adds `$...$` inline math and `$$...$$` display math rendered with KaTeX
+ * @param md - The markdown-it instance
+ */
+export function mathPlugin(md: MarkdownIt): void {
+  md.inline.ruler.after('escape', 'math_inline', (state, silent) => {
+    const { src, pos } = state
+    if (src[pos] !== '$') return false
+
+    if (src[pos + 1] === '$') {
+      const end = src.indexOf('$$', pos + 2)
+      if (end === -1 || !src.slice(pos + 2, end).trim()) return false
+      if (!silent) {
+        const token = state.push('math_inline_display', 'math', 0)
+        token.content = src.slice(pos + 2, end).trim()
+        token.markup = '$$'
+      }
+      state.pos = end + 2
+      return true
+    }
+
+    // Opening dollar must be followed by a non-space character
+    if (!src[pos + 1] || /\s/.test(src[pos + 1])) return false
+    const end = findInlineClose(src, pos + 1)
+    if (end === -1) return false
+
+    if (!silent) {
+      const token = state.push('math_inline', 'math', 0)
+      token.content = src.slice(pos + 1, end)
+      token.markup = '$'
+    }
+    state.pos = end + 1
+    return true
+  })
+
+  md.block.ruler.before(
+    'fence',
+    'math_block',
+    (state, startLine, endLine, silent) => {
+      if (state.sCount[startLine] - state.blkIndent >= 4) return false
+
+      const start = state.bMarks[startLine] + state.tShift[startLine]
+      const firstLine = state.src.slice(start, state.eMarks[startLine]).trim()
+      if (!firstLine.startsWith('$$')) return false
+
+      let content: string
+      let nextLine = startLine + 1
+
+      if (firstLine.length > 4 && firstLine.endsWith('$$')) {
+        content = firstLine.slice(2, -2)
+      } else {
+        const lines = [firstLine.slice(2)]
+        let closed = false
+        for (; nextLine < endLine; nextLine++) {
+          const line = state.src
+            .slice(state.bMarks[nextLine] + state.tShift[nextLine], state.eMarks[nextLine])
+            .trimEnd()
+          if (line.endsWith('$$')) {
+            lines.push(line.slice(0, -2))
+            closed = true
+            nextLine++
+            break
+          }
+          lines.push(line)
+        }
+        // An unclosed block is left as a paragraph, like an unclosed inline formula
+        if (!closed) return false
+        content = lines.join('\n')
+      }
+
+      if (silent) return true
+
+      const token = state.push('math_block', 'math', 0)
+      token.block = true
+      token.content = content.trim()
+      token.markup = '$$'
+      token.map = [startLine, nextLine]
+      state.line = nextLine
+      return true
+    },
+    { alt: ['paragraph', 'reference', 'blockquote', 'list'] }
+  )
+
+  md.renderer.rules.math_inline = (tokens, idx) => renderMath(tokens[idx].content, false)
+  md.renderer.rules.math_inline_display = (tokens, idx) => renderMath(tokens[idx].content, true)
+  md.renderer.rules.math_block = (tokens, idx) =>
+    `<div class="math-block">${renderMath(tokens[idx].content, true)}</div>\n`
+}
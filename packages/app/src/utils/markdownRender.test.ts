@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { renderDocument } from './markdownRender'
+import { DEFAULT_MARKDOWN_EXTENSIONS } from './markdown'
+
+describe('renderDocument', () => {
+  it('splits each block at Mermaid diagrams', () => {
+    const { blocks } = renderDocument(
+      'Intro\n\n```mermaid\ngraph TD\n```',
+      DEFAULT_MARKDOWN_EXTENSIONS
+    )
+    expect(blocks).toHaveLength(2)
+    expect(blocks[0].segments).toEqual([{ type: 'html', content: '<p>Intro</p>\n' }])
+    expect(blocks[1].segments).toEqual([{ type: 'mermaid', code: 'graph TD\n' }])
+  })
+
+  it('gives repeated blocks unique keys', () => {
+    const { blocks } = renderDocument('***\n\ntext\n\n***', DEFAULT_MARKDOWN_EXTENSIONS)
+    const keys = blocks.map((block) => block.key)
+    expect(new Set(keys).size).toBe(3)
+    expect(keys[2]).toBe(`${keys[0]}-1`)
+  })
+
+  it('leaves out blocks that render nothing', () => {
+    const { html, blocks } = renderDocument('---\ntitle: x\n---\n# A', DEFAULT_MARKDOWN_EXTENSIONS)
+    expect(blocks).toHaveLength(1)
+    expect(blocks[0].lines).toEqual([3, 4])
+    expect(html).toContain('A</h1>')
+  })
+  it('keeps line offsets out of the document HTML', () => {
+    const { html } = renderDocument(
+      '- one\n\n  more\n\nClaim[^1]\n\n[^1]: Source.',
+      DEFAULT_MARKDOWN_EXTENSIONS
+    )
+    expect(html).toContain('<p>Source.')
+    expect(html).not.toContain('data-line-offset')
+  })
+  it('keeps code block copy buttons in the preview only', () => {
+    const { html, blocks } = renderDocument('```js\nlet a\n```', DEFAULT_MARKDOWN_EXTENSIONS)
+    expect(html).toContain('<div class="code-block"><pre>')
+    expect(html).not.toContain('<button')
+    expect(blocks[0].segments[0]).toMatchObject({
+      content: expect.stringContaining('data-copy-code'),
+    })
+  })
+})
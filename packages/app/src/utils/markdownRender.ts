@@ -0,0 +1,83 @@
+import { renderMarkdownBlocks, type MarkdownExtensions } from '@/utils/markdown'
+import { COPY_CODE_BUTTON } from '@/utils/markdownCodeBlocks'
+import { splitHtmlAtDiagrams, type HtmlSegment } from '@/utils/splitHtmlAtDiagrams'
+
+// Only the preview maps elements back to source lines and copies single code blocks;
+// exports and copies leave those out
+const LINE_OFFSET_ATTRIBUTE = / data-line-offset="-?\d+"/g
+
+/**
+ * A top-level block of the preview, rendered and patched into the DOM on its own
+ */
+export interface PreviewBlock {
+  /**
+   * Content hash of the block, made unique within the document. Stays the same while the
+   * block is unchanged, even when edits above it shift its lines.
+   */
+  key: string
+  /** 0-based `[start, end)` source lines, or null for generated blocks like the footnote list */
+  lines: [number, number] | null
+  /** The block's HTML split around Mermaid diagrams */
+  segments: HtmlSegment[]
+}
+
+/**
+ * Rendered preview content: the full HTML (for export and copy) and the same HTML
+ * as top-level blocks (for the preview)
+ */
+export interface RenderedMarkdown {
+  html: string
+  blocks: PreviewBlock[]
+}
+
+/**
+ * Message posted to the markdown worker
+ */
+export interface MarkdownRenderRequest {
+  /** Increases with every request so stale responses can be ignored */
+  id: number
+  markdown: string
+  extensions: MarkdownExtensions
+}
+
+/**
+ * Message posted back by the markdown worker
+ */
+export interface MarkdownRenderResponse {
+  id: number
+  rendered: RenderedMarkdown
+}
+
+/**
+ * Renders markdown as top-level blocks, reusing the HTML of unchanged blocks
+ * @param markdown - The markdown text to render
+ * @param extensions - Optional syntax extensions to enable
+ * @returns HTML and preview blocks
+ */
+export function renderDocument(markdown: string, extensions: MarkdownExtensions): RenderedMarkdown {
+  const occurrences = new Map<string, number>()
+  const blocks = renderMarkdownBlocks(markdown, extensions)
+
+  return {
+    html: blocks
+      .map((block) => block.html)
+      .join('')
+      .replace(LINE_OFFSET_ATTRIBUTE, '')
+      .replace(COPY_CODE_BUTTON, ''),
+    blocks: blocks
+      .filter((block) => block.html)
+      .map((block): PreviewBlock => {
+        // Identical blocks (e.g. two `---` rules) share a hash, so number the repeats
+        const count = occurrences.get(block.hash) ?? 0
+        occurrences.set(block.hash, count + 1)
+        return {
+          key: count === 0 ? block.hash : `${block.hash}-${count}`,
+          lines: block.lines,
+          // Drop the newline left between a diagram and the end of its block
+          segments: splitHtmlAtDiagrams(block.html).filter(
+            (segment) => segment.type !== 'html' || segment.content.trim()
+          ),
+        }
+      }),
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { renderMarkdown, renderMarkdownBlocks, getTaskProgress } from './markdown'
+import { toggleTaskMarker } from './markdownTasks'
+
+describe('task lists', () => {
+  it('renders task items as checkboxes', () => {
+    const html = renderMarkdown('Intro\n\n- [ ] Write\n- [x] Review\n- Plain')
+    expect(html).toContain('<ul class="contains-task-list">')
+    expect(html).toContain(
+      '<li class="task-list-item"><input type="checkbox" class="task-list-item-checkbox"> Write</li>'
+    )
+    expect(html).toContain('class="task-list-item-checkbox" checked> Review')
+    expect(html).toContain('<li>Plain</li>')
+  })
+
+  it('handles nested and ordered lists', () => {
+    const html = renderMarkdown('1. [X] Parent\n   - [ ] Child')
+    expect(html).toContain('<ol class="contains-task-list">')
+    expect(html).toContain('checked> Parent')
+    expect(html).toContain('class="task-list-item-checkbox"> Child')
+  })
+
+  it('reuses a task list block when lines above it shift', () => {
+    const list = '- [ ] Write\n- [x] Review'
+    const [, before] = renderMarkdownBlocks(`Intro\n\n${list}`)
+    const [, after] = renderMarkdownBlocks(`Intro\nmore\n\n${list}`)
+    expect(after.hash).toBe(before.hash)
+    expect(after.html).toContain(
+      '<li class="task-list-item" data-line-offset="1"><input type="checkbox" class="task-list-item-checkbox" checked> Review</li>'
+    )
+  })
+
+  it('ignores brackets that are not a task box', () => {
+    expect(renderMarkdown('- [link](https://example.com)')).not.toContain('checkbox')
+    expect(renderMarkdown('- [ ]not a task')).not.toContain('checkbox')
+    expect(renderMarkdown('[ ] not in a list')).not.toContain('checkbox')
+  })
+})
+
+describe('toggleTaskMarker', () => {
+  it('flips the box on a task line', () => {
+    expect(toggleTaskMarker('- [ ] Write')).toBe('- [x] Write')
+    expect(toggleTaskMarker('  * [X] Review [ ]')).toBe('  * [ ] Review [ ]')
+    expect(toggleTaskMarker('> 2) [ ] Quoted')).toBe('> 2) [x] Quoted')
+  })
+
+  it('returns null for other lines', () => {
+    expect(toggleTaskMarker('- Plain item')).toBeNull()
+    expect(toggleTaskMarker('[ ] Not a list')).toBeNull()
+  })
+})
+
+describe('getTaskProgress', () => {
+  it('counts done and total tasks', () => {
+    expect(getTaskProgress('- [x] a\n- [ ] b\n  - [x] c\n\n```\n- [ ] code\n```')).toEqual({
+      done: 2,
+      total: 3,
+    })
+  })
+
+  it('returns zero counts without tasks', () => {
+    expect(getTaskProgress('')).toEqual({ done: 0, total: 0 })
+  })
+})
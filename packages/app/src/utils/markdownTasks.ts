@@ -0,0 +1,92 @@
+import type MarkdownIt from 'markdown-it'
+
+type Token = ReturnType<MarkdownIt['parse']>[number]
+
+/**
+ * Completed and total task list items in a document
+ */
+export interface TaskProgress {
+  done: number
+  total: number
+}
+
+/** `[ ]` or `[x]` at the start of a list item's text */
+const TASK_PREFIX = /^\[([ xX])\](?=\s|$)\s*/
+
+/** List marker followed by a task box, allowing for blockquote prefixes */
+const TASK_LINE = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/
+
+/**
+ * Flips the task box on a source line between `[ ]` and `[x]`
+ * @param line - A line of markdown source
+ * @returns The toggled line, or null if the line is not a task list item
+ */
+export function toggleTaskMarker(line: string): string | null {
+  const match = line.match(TASK_LINE)
+  if (!match) return null
+  const checked = match[2] !== ' '
+  return line.replace(TASK_LINE, `$1${checked ? ' ' : 'x'}$3`)
+}
+
+/**
+ * Counts task list items in parsed tokens
+ * @param tokens - Tokens from `md.parse`
+ * @returns Completed and total task counts
+ */
+export function countTasks(tokens: Token[]): TaskProgress {
+  const progress: TaskProgress = { done: 0, total: 0 }
+  for (const token of tokens) {
+    for (const child of token.children ?? []) {
+      if (child.type !== 'task_checkbox') continue
+      progress.total++
+      if (child.meta.checked) progress.done++
+    }
+  }
+  return progress
+}
+
+/**
+ * Renders GFM task list items (`- [ ]` / `- [x]`) as checkboxes. The preview finds a
+ * checkbox's source line from its item's `data-line-offset`, so the HTML holds no
+ * absolute line and stays cacheable when edits above the list shift it.
+ * @param md - The markdown-it instance
+ */
+export function taskListPlugin(md: MarkdownIt): void {
+  md.core.ruler.push('task_lists', (state) => {
+    const tokens = state.tokens
+    const lists: Token[] = []
+
+    tokens.forEach((token, i) => {
+      if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+        lists.push(token)
+      } else if (token.type === 'bullet_list_close' || token.type === 'ordered_list_close') {
+        lists.pop()
+      }
+
+      if (token.type !== 'list_item_open') return
+      // Tight and loose items both wrap their first line in a paragraph
+      const inline = tokens[i + 1]?.type === 'paragraph_open' ? tokens[i + 2] : undefined
+      const first = inline?.children?.[0]
+      if (!inline || first?.type !== 'text') return
+
+      const match = first.content.match(TASK_PREFIX)
+      if (!match) return
+
+      const checkbox = new state.Token('task_checkbox', 'input', 0)
+      checkbox.meta = { checked: match[1] !== ' ' }
+      first.content = first.content.slice(match[0].length)
+      inline.children!.unshift(checkbox)
+
+      token.attrJoin('class', 'task-list-item')
+      const list = lists[lists.length - 1]
+      if (list && !list.attrGet('class')?.includes('contains-task-list')) {
+        list.attrJoin('class', 'contains-task-list')
+      }
+    })
+  })
+
+  md.renderer.rules.task_checkbox = (tokens, idx) => {
+    const { checked } = tokens[idx].meta
+    return `<input type="checkbox" class="task-list-item-checkbox"${checked ? ' checked' : ''}> `
+  }
+}
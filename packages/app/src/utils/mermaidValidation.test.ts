@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { getMermaidErrorLocation, validateMermaidFences } from './mermaidValidation'
+
+describe('getMermaidErrorLocation', () => {
+  it('uses the location of Jison parse errors', () => {
+    const error = Object.assign(
+      new Error("Parse error on line 3:\n...A-->B  B-->>C\n-----^\nExpecting 'NODE', got 'TAGEND'"),
+      { hash: { loc: { first_line: 3, first_column: 3, last_line: 3, last_column: 6 } } }
+    )
+
+    expect(getMermaidErrorLocation(error, 'graph TD\n  A-->B\n  B-->>C')).toEqual({
+      line: 3,
+      column: 4,
+      endLine: 3,
+      endColumn: 7,
+      message: "Expecting 'NODE', got 'TAGEND'",
+    })
+  })
+
+  it('reads line and column from the message', () => {
+    const error = new Error('Parsing failed: Lexer error on line 2, column 5: unexpected')
+
+    expect(getMermaidErrorLocation(error, 'pie\n "a": x')).toMatchObject({
+      line: 2,
+      column: 5,
+      endLine: 2,
+      endColumn: 8,
+      message: 'Lexer error on line 2, column 5: unexpected',
+    })
+  })
+
+  it('converts offsets to lines', () => {
+    const error = new Error('Parsing failed: unexpected character: ->x<- at offset: 10')
+
+    expect(getMermaidErrorLocation(error, 'pie\n "a": x')).toMatchObject({ line: 2, column: 7 })
+  })
+
+  it('falls back to the first line', () => {
+    expect(getMermaidErrorLocation(new Error('No diagram type detected'), 'nope')).toEqual({
+      line: 1,
+      column: 1,
+      endLine: 1,
+      endColumn: 5,
+      message: 'No diagram type detected',
+    })
+  })
+})
+
+describe('validateMermaidFences', () => {
+  it('returns nothing for valid diagrams or documents without any', async () => {
+    expect(await validateMermaidFences('# Title')).toEqual([])
+    expect(await validateMermaidFences('```mermaid\ngraph TD\n  A-->B\n```')).toEqual([])
+  })
+
+  it('positions errors at their line in the document', async () => {
+    const markdown = '# Flow\n\n```mermaid\ngraph TD\n  A-->B\n  B-->>C\n```'
+    const [error] = await validateMermaidFences(markdown)
+
+    expect(error.line).toBe(6)
+    expect(error.message).toContain('Expecting')
+  })
+
+  it('shifts columns past the quote prefix of nested fences', async () => {
+    const quoted = await validateMermaidFences('> ```mermaid\n> graph TD\n>   B-->>C\n> ```')
+    const plain = await validateMermaidFences('```mermaid\ngraph TD\n  B-->>C\n```')
+
+    expect(quoted[0].line).toBe(3)
+    expect(quoted[0].column).toBe(plain[0].column + 2)
+  })
+})
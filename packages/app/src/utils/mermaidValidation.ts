@@ -0,0 +1,122 @@
+import { getFencedCode } from '@/utils/markdown'
+
+/**
+ * Where a Mermaid parse error occurred, as 1-based lines and columns. Columns are
+ * relative to the diagram source when returned by `getMermaidErrorLocation`.
+ */
+export interface MermaidErrorLocation {
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  message: string
+}
+
+/** Jison-based diagrams (flowchart, sequence, …) attach the failing token's location */
+interface JisonErrorHash {
+  loc?: { first_line: number; first_column: number; last_line: number; last_column: number }
+}
+
+/**
+ * Converts an offset in the diagram source to a 1-based line and column
+ * @param code - The diagram source
+ * @param offset - 0-based character offset
+ * @returns Line and column of the offset
+ */
+function offsetToPosition(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, offset).split('\n')
+  return { line: before.length, column: before[before.length - 1].length + 1 }
+}
+
+/**
+ * Shortens a Mermaid error to the part worth showing in a tooltip, dropping the source
+ * excerpt and caret that Jison parsers include
+ * @param message - The error's message
+ * @returns A single-line description
+ */
+function cleanErrorMessage(message: string): string {
+  const lines = message.split('\n')
+  if (/^Parse error on line \d+:$/.test(lines[0]) && lines.length > 3) {
+    return lines.slice(3).join(' ').trim()
+  }
+  return message
+    .replace(/^Parsing failed:\s*/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Finds where in a diagram's source a Mermaid parse or render error points.
+ * Understands Jison locations, Langium `line X, column Y` messages and offsets;
+ * errors without a position are placed on the first line.
+ * @param error - The value thrown by `mermaid.parse` or `mermaid.render`
+ * @param code - The diagram source that failed
+ * @returns Location within `code` and a readable message
+ */
+export function getMermaidErrorLocation(error: unknown, code: string): MermaidErrorLocation {
+  const message = error instanceof Error ? error.message : String(error)
+  const readable = cleanErrorMessage(message) || 'Invalid Mermaid diagram'
+  const lines = code.split('\n')
+  const lineEnd = (line: number): number => (lines[line - 1]?.length ?? 0) + 1
+
+  const loc = (error as { hash?: JisonErrorHash } | null)?.hash?.loc
+  if (loc) {
+    return {
+      line: loc.first_line,
+      column: loc.first_column + 1,
+      endLine: loc.last_line,
+      endColumn: loc.last_column + 1,
+      message: readable,
+    }
+  }
+
+  const lineMatch = message.match(/\bline (\d+)(?:, column (\d+))?/i)
+  const offsetMatch = message.match(/\boffset:? (\d+)/i)
+  const start = lineMatch
+    ? { line: Number(lineMatch[1]), column: Number(lineMatch[2] ?? 1) }
+    : offsetMatch
+      ? offsetToPosition(code, Number(offsetMatch[1]))
+      : { line: 1, column: 1 }
+
+  return { ...start, endLine: start.line, endColumn: lineEnd(start.line), message: readable }
+}
+
+/**
+ * Parses every ```mermaid fence in a document, loading Mermaid only when one exists
+ * @param markdown - The markdown source
+ * @returns Errors positioned in the document's lines and columns
+ */
+export async function validateMermaidFences(markdown: string): Promise<MermaidErrorLocation[]> {
+  const fences = getFencedCode(markdown).filter((fence) => fence.language === 'mermaid')
+  if (fences.length === 0) return []
+
+  const mermaid = (await import('mermaid')).default
+  const sourceLines = markdown.split('\n')
+  const errors: MermaidErrorLocation[] = []
+
+  for (const fence of fences) {
+    try {
+      await mermaid.parse(fence.code)
+    } catch (error) {
+      const location = getMermaidErrorLocation(error, fence.code)
+      const codeLines = fence.code.split('\n')
+      // Shift columns past any list indent or `> ` the fence content sits behind
+      const indent = (line: number): number => {
+        const source = sourceLines[fence.line + line - 2] ?? ''
+        const content = codeLines[line - 1] ?? ''
+        return source.endsWith(content) ? source.length - content.length : 0
+      }
+      const line = Math.min(Math.max(location.line, 1), Math.max(codeLines.length - 1, 1))
+      const endLine = Math.max(Math.min(location.endLine, codeLines.length - 1), line)
+
+      errors.push({
+        line: fence.line + line - 1,
+        column: location.column + indent(line),
+        endLine: fence.line + endLine - 1,
+        endColumn: Math.max(location.endColumn, location.column + 1) + indent(endLine),
+        message: location.message,
+      })
+    }
+  }
+  return errors
+}
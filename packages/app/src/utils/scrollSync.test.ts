@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { buildScrollAnchors, getSourceLineOffsets, mapScrollPosition } from './scrollSync'
+
+describe('getSourceLineOffsets', () => {
+  it('measures annotated elements relative to the scrolled content', () => {
+    const container = document.createElement('div')
+    container.innerHTML =
+      '<div data-source-line="1"></div><div data-source-line="5"></div><p>no line</p>'
+    container.scrollTop = 50
+    container.getBoundingClientRect = () => ({ top: 100 }) as DOMRect
+    const [first, second] = container.querySelectorAll('div')
+    first.getBoundingClientRect = () => ({ top: 60 }) as DOMRect
+    second.getBoundingClientRect = () => ({ top: 400 }) as DOMRect
+
+    expect(getSourceLineOffsets(container)).toEqual(
+      new Map([
+        [1, 10],
+        [5, 350],
+      ])
+    )
+  })
+})
+
+describe('buildScrollAnchors', () => {
+  it('keeps increasing anchors and ends at both maximums', () => {
+    expect(
+      buildScrollAnchors(
+        [
+          [100, 300],
+          [150, 200], // goes backwards in the target
+          [200, 500],
+          [900, 950], // past the end of the source
+        ],
+        800,
+        1000
+      )
+    ).toEqual([
+      [0, 0],
+      [100, 300],
+      [200, 500],
+      [800, 1000],
+    ])
+  })
+})
+
+describe('mapScrollPosition', () => {
+  const anchors = buildScrollAnchors([[100, 300]], 200, 400)
+
+  it('interpolates between neighbouring anchors', () => {
+    expect(mapScrollPosition(anchors, 50)).toBe(150)
+    expect(mapScrollPosition(anchors, 100)).toBe(300)
+    expect(mapScrollPosition(anchors, 150)).toBe(350)
+  })
+
+  it('clamps positions outside the anchors', () => {
+    expect(mapScrollPosition(anchors, -10)).toBe(0)
+    expect(mapScrollPosition(anchors, 500)).toBe(400)
+  })
+
+  it('maps back with the anchors swapped', () => {
+    const reversed = anchors.map(([source, target]): [number, number] => [target, source])
+    expect(mapScrollPosition(reversed, 350)).toBe(150)
+  })
+})
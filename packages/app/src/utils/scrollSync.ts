@@ -0,0 +1,62 @@
+/** Scroll offsets of the same source position in the source and target panes */
+export type ScrollAnchor = [source: number, target: number]
+
+/**
+ * Measures the elements annotated with `data-source-line` inside a scroll container
+ * @param container - The scrollable element holding the rendered document
+ * @returns Map of 1-based source line to the element's offset from the top of the content
+ */
+export function getSourceLineOffsets(container: HTMLElement): Map<number, number> {
+  const offsets = new Map<number, number>()
+  const containerTop = container.getBoundingClientRect().top - container.scrollTop
+
+  for (const el of container.querySelectorAll<HTMLElement>('[data-source-line]')) {
+    const line = Number(el.dataset.sourceLine)
+    if (!offsets.has(line)) offsets.set(line, el.getBoundingClientRect().top - containerTop)
+  }
+  return offsets
+}
+
+/**
+ * Builds the anchors used to map scroll positions between two panes. Anchors that would
+ * go backwards on either side (e.g. collapsed content) or lie past the last scroll
+ * position are skipped, so the mapping is monotonic and the ends of both panes line up.
+ * @param pairs - Offsets of the same source lines in both panes, in line order
+ * @param sourceMax - Largest scrollTop of the source pane
+ * @param targetMax - Largest scrollTop of the target pane
+ * @returns Strictly increasing anchors from `[0, 0]` to `[sourceMax, targetMax]`
+ */
+export function buildScrollAnchors(
+  pairs: ScrollAnchor[],
+  sourceMax: number,
+  targetMax: number
+): ScrollAnchor[] {
+  const anchors: ScrollAnchor[] = [[0, 0]]
+  for (const [source, target] of pairs) {
+    const [lastSource, lastTarget] = anchors[anchors.length - 1]
+    if (source <= lastSource || target <= lastTarget) continue
+    if (source >= sourceMax || target >= targetMax) break
+    anchors.push([source, target])
+  }
+  anchors.push([sourceMax, targetMax])
+  return anchors
+}
+
+/**
+ * Maps a scroll position from one pane to the other by interpolating between anchors
+ * @param anchors - Anchors from `buildScrollAnchors`, scrolled pane first
+ * @param scrollTop - Scroll position of the pane being scrolled
+ * @returns Matching scroll position in the other pane
+ */
+export function mapScrollPosition(anchors: ScrollAnchor[], scrollTop: number): number {
+  for (let i = 1; i < anchors.length; i++) {
+    const [startSource, startTarget] = anchors[i - 1]
+    const [endSource, endTarget] = anchors[i]
+    if (scrollTop > endSource && i < anchors.length - 1) continue
+
+    const span = endSource - startSource
+    const progress = span > 0 ? Math.min(1, Math.max(0, (scrollTop - startSource) / span)) : 0
+    return startTarget + progress * (endTarget - startTarget)
+  }
+  return 0
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { slugify, createSlugger } from './slug'
+
+describe('slugify', () => {
+  it('lowercases and joins words with dashes', () => {
+    expect(slugify('Hello, World!  Again')).toBe('hello-world-again')
+  })
+
+  it('trims leading and trailing dashes', () => {
+    expect(slugify(' -- Intro -- ')).toBe('intro')
+  })
+})
+
+describe('createSlugger', () => {
+  it('numbers repeated slugs', () => {
+    const slug = createSlugger()
+    expect([slug('Intro'), slug('Intro'), slug('intro!')]).toEqual(['intro', 'intro-1', 'intro-2'])
+  })
+
+  it('falls back to a placeholder for empty slugs', () => {
+    expect(createSlugger()('!!!')).toBe('section')
+  })
+})
@@ -0,0 +1,37 @@
+/**
+ * Turns text into a URL slug: lowercase, punctuation removed, and runs of
+ * spaces, underscores and dashes collapsed to a single dash
+ * @param text - The text to slugify
+ * @returns The slug (may be empty if the text has no word characters)
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '') // remove non-word/non-space/non-dash
+    .replace(/[\s_-]+/g, '-') // collapse spaces/dashes to single dash
+    .replace(/^-+|-+$/g, '') // trim dashes
+}
+
+/**
+ * Creates a slugger that keeps slugs unique within one document,
+ * suffixing repeats as `-1`, `-2`, ... like GitHub heading anchors
+ * @returns Function returning a unique slug for each call
+ */
+export function createSlugger(): (text: string) => string {
+  const seen = new Map<string, number>()
+
+  return (text: string): string => {
+    const base = slugify(text) || 'section'
+    let slug = base
+    let count = seen.get(base) ?? 0
+
+    while (seen.has(slug)) {
+      count++
+      slug = `${base}-${count}`
+    }
+
+    seen.set(base, count)
+    seen.set(slug, 0)
+    return slug
+  }
+}
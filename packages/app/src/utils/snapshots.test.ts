@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createSnapshot,
+  getPrunableSnapshots,
+  isSignificantChange,
+  type Snapshot,
+} from './snapshots'
+
+describe('snapshots', () => {
+  describe('createSnapshot', () => {
+    it('should capture content, name and kind', () => {
+      const snapshot = createSnapshot(
+        'doc.md',
+        { content: '# Hi', name: 'doc.md' },
+        'manual',
+        ' v1 '
+      )
+      expect(snapshot).toMatchObject({
+        documentKey: 'doc.md',
+        name: 'doc.md',
+        content: '# Hi',
+        kind: 'manual',
+        label: 'v1',
+      })
+      expect(snapshot.id).toBeTruthy()
+    })
+
+    it('should drop blank labels', () => {
+      expect(createSnapshot('k', { content: '' }, 'auto', '  ').label).toBeUndefined()
+    })
+  })
+
+  describe('isSignificantChange', () => {
+    it('should ignore identical content', () => {
+      expect(isSignificantChange('same', 'same')).toBe(false)
+    })
+
+    it('should ignore small edits', () => {
+      expect(isSignificantChange('hello world', 'hello there world')).toBe(false)
+    })
+
+    it('should flag large additions', () => {
+      expect(isSignificantChange('short', 'short' + 'x'.repeat(250))).toBe(true)
+    })
+
+    it('should flag many changed lines', () => {
+      const before = Array.from({ length: 10 }, (_, i) => `line ${i}`).join('\n')
+      const after = Array.from({ length: 10 }, (_, i) => `edit ${i}`).join('\n')
+      expect(isSignificantChange(before, after)).toBe(true)
+    })
+  })
+
+  describe('getPrunableSnapshots', () => {
+    const make = (id: string, kind: Snapshot['kind'], createdAt: number): Snapshot => ({
+      id,
+      documentKey: 'k',
+      name: 'k',
+      content: '',
+      kind,
+      createdAt,
+    })
+
+    it('should return the oldest automatic snapshots beyond the limit', () => {
+      const snapshots = [make('a', 'auto', 1), make('b', 'auto', 3), make('c', 'auto', 2)]
+      expect(getPrunableSnapshots(snapshots, 2).map((s) => s.id)).toEqual(['a'])
+    })
+
+    it('should never prune manual checkpoints', () => {
+      const snapshots = [make('a', 'manual', 1), make('b', 'auto', 2)]
+      expect(getPrunableSnapshots(snapshots, 0).map((s) => s.id)).toEqual(['b'])
+    })
+  })
+})
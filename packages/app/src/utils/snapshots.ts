@@ -0,0 +1,123 @@
+import { SNAPSHOTS_STORE, withStore } from '@/utils/indexedDb'
+import { diffLines, getDiffStats } from '@/utils/lineDiff'
+import type { DocumentData } from '@/utils/compression'
+
+/**
+ * A saved point in a document's version history
+ */
+export interface Snapshot {
+  id: string
+  /** Groups snapshots by document id */
+  documentKey: string
+  name: string
+  content: string
+  /** 'auto' snapshots are taken on a timer or large edits; 'manual' ones are named checkpoints */
+  kind: 'auto' | 'manual'
+  label?: string
+  createdAt: number
+}
+
+/** Maximum automatic snapshots kept per document; named checkpoints are never pruned */
+export const MAX_AUTO_SNAPSHOTS = 50
+
+/** Character delta that counts as a significant change */
+const SIGNIFICANT_CHAR_DELTA = 200
+
+/** Changed line count that counts as a significant change */
+const SIGNIFICANT_LINE_DELTA = 10
+
+/**
+ * Builds a snapshot record for the given document
+ * @param documentKey - Key grouping the document's snapshots
+ * @param data - The document content and name
+ * @param kind - Whether the snapshot is automatic or a manual checkpoint
+ * @param label - Optional checkpoint name
+ * @returns A snapshot ready to be stored
+ */
+export function createSnapshot(
+  documentKey: string,
+  data: DocumentData,
+  kind: Snapshot['kind'],
+  label?: string
+): Snapshot {
+  return {
+    id: crypto.randomUUID(),
+    documentKey,
+    name: data.name ?? 'untitled.md',
+    content: data.content,
+    kind,
+    label: label?.trim() || undefined,
+    createdAt: Date.now(),
+  }
+}
+
+/**
+ * Decides whether an edit is large enough to deserve its own snapshot
+ * @param previous - Content of the latest snapshot
+ * @param next - Current content
+ * @returns True if the change crosses the character or line threshold
+ */
+export function isSignificantChange(previous: string, next: string): boolean {
+  if (previous === next) return false
+  if (Math.abs(next.length - previous.length) >= SIGNIFICANT_CHAR_DELTA) return true
+
+  const { added, removed } = getDiffStats(diffLines(previous, next))
+  return added + removed >= SIGNIFICANT_LINE_DELTA
+}
+
+/**
+ * Picks automatic snapshots that exceed the retention limit, oldest first
+ * @param snapshots - All snapshots for one document
+ * @param limit - Number of automatic snapshots to keep
+ * @returns Snapshots that should be deleted
+ */
+export function getPrunableSnapshots(
+  snapshots: Snapshot[],
+  limit = MAX_AUTO_SNAPSHOTS
+): Snapshot[] {
+  const auto = snapshots
+    .filter((snapshot) => snapshot.kind === 'auto')
+    .sort((a, b) => b.createdAt - a.createdAt)
+  return auto.slice(limit)
+}
+
+/**
+ * Lists snapshots for a document, newest first
+ * @param documentKey - Key grouping the document's snapshots
+ * @returns Promise resolving with the document's snapshots
+ */
+export async function listSnapshots(documentKey: string): Promise<Snapshot[]> {
+  const snapshots = await withStore<Snapshot[]>(SNAPSHOTS_STORE, 'readonly', (store) =>
+    store.index('documentKey').getAll(documentKey)
+  )
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Stores a snapshot
+ * @param snapshot - The snapshot to store
+ * @returns Promise resolving once the write completes
+ */
+export async function putSnapshot(snapshot: Snapshot): Promise<void> {
+  await withStore(SNAPSHOTS_STORE, 'readwrite', (store) => store.put(snapshot))
+}
+
+/**
+ * Moves a document's snapshots to a new key
+ * @param fromKey - The key the snapshots are stored under
+ * @param toKey - The key to store them under instead
+ * @returns Promise resolving once every snapshot is rewritten
+ */
+export async function moveSnapshots(fromKey: string, toKey: string): Promise<void> {
+  const snapshots = await listSnapshots(fromKey)
+  await Promise.all(snapshots.map((snapshot) => putSnapshot({ ...snapshot, documentKey: toKey })))
+}
+
+/**
+ * Removes a snapshot
+ * @param id - The snapshot id
+ * @returns Promise resolving once the delete completes
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+  await withStore(SNAPSHOTS_STORE, 'readwrite', (store) => store.delete(id))
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ACTIVE_SOURCE_LINE_CLASS,
+  findSourceLineElement,
+  findSourcePosition,
+  getElementSourceLine,
+  highlightSourceLine,
+} from './sourceLines'
+
+/** Preview with a heading on line 1 and a list on lines 3-6 with a nested table row */
+function createPreview(): HTMLDivElement {
+  const container = document.createElement('div')
+  container.innerHTML = [
+    '<div data-source-line="1"><h1>Title</h1></div>',
+    '<div data-source-line="3"><ul>',
+    '<li data-line-offset="0"><p data-line-offset="0">First</p></li>',
+    '<li data-line-offset="2"><table><tr data-line-offset="3"><td>Cell</td></tr></table></li>',
+    '</ul></div>',
+  ].join('')
+  return container
+}
+
+describe('getElementSourceLine', () => {
+  it('adds the nearest nested offset to the block line', () => {
+    const container = createPreview()
+    expect(getElementSourceLine(container.querySelector('h1')!)).toBe(1)
+    expect(getElementSourceLine(container.querySelector('p')!)).toBe(3)
+    expect(getElementSourceLine(container.querySelector('td')!)).toBe(6)
+  })
+
+  it('returns null outside annotated blocks', () => {
+    expect(getElementSourceLine(document.createElement('p'))).toBeNull()
+  })
+})
+
+describe('findSourceLineElement', () => {
+  it('finds the innermost element starting at or before the line', () => {
+    const container = createPreview()
+    expect(findSourceLineElement(container, 1)?.tagName).toBe('DIV')
+    expect(findSourceLineElement(container, 2)?.dataset.sourceLine).toBe('1')
+    expect(findSourceLineElement(container, 3)?.tagName).toBe('P')
+    expect(findSourceLineElement(container, 5)?.tagName).toBe('LI')
+    expect(findSourceLineElement(container, 7)?.tagName).toBe('TR')
+  })
+
+  it('returns null before the first block', () => {
+    const container = createPreview()
+    container.firstElementChild!.setAttribute('data-source-line', '4')
+    container.lastElementChild!.setAttribute('data-source-line', '6')
+    expect(findSourceLineElement(container, 2)).toBeNull()
+  })
+})
+
+describe('highlightSourceLine', () => {
+  it('moves the highlight to the matching element', () => {
+    const container = createPreview()
+    highlightSourceLine(container, 3)
+    expect(container.querySelector('p')).toHaveClass(ACTIVE_SOURCE_LINE_CLASS)
+
+    highlightSourceLine(container, 1)
+    expect(container.querySelector('p')).not.toHaveClass(ACTIVE_SOURCE_LINE_CLASS)
+    expect(container.firstElementChild).toHaveClass(ACTIVE_SOURCE_LINE_CLASS)
+
+    highlightSourceLine(container, null)
+    expect(container.querySelectorAll(`.${ACTIVE_SOURCE_LINE_CLASS}`)).toHaveLength(0)
+  })
+})
+
+describe('findSourcePosition', () => {
+  const markdown = '# Title\n\nSome **bold** text\nwrapped here\n\nwrapped again'
+
+  it('finds the selected text within the paragraph', () => {
+    expect(findSourcePosition(markdown, 3, 'bold')).toEqual({ lineNumber: 3, column: 8 })
+    expect(findSourcePosition(markdown, 3, 'here')).toEqual({ lineNumber: 4, column: 9 })
+  })
+
+  it('falls back to the start of the line', () => {
+    expect(findSourcePosition(markdown, 3, 'again')).toEqual({ lineNumber: 3, column: 1 })
+    expect(findSourcePosition(markdown, 1)).toEqual({ lineNumber: 1, column: 1 })
+  })
+})
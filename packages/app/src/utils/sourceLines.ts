@@ -0,0 +1,80 @@
+/** Class added to the preview element matching the editor cursor */
+export const ACTIVE_SOURCE_LINE_CLASS = 'source-line-active'
+
+/**
+ * Finds the source line an element in the preview was rendered from, using the block's
+ * `data-source-line` and the nearest nested `data-line-offset`
+ * @param element - An element inside the rendered preview
+ * @returns The 1-based source line, or null outside any annotated block
+ */
+export function getElementSourceLine(element: Element): number | null {
+  const block = element.closest<HTMLElement>('[data-source-line]')
+  if (!block) return null
+
+  const nested = element.closest<HTMLElement>('[data-line-offset]')
+  const offset = nested && block.contains(nested) ? Number(nested.dataset.lineOffset) : 0
+  return Number(block.dataset.sourceLine) + offset
+}
+
+/**
+ * Finds the most specific preview element rendered from a source line: the innermost
+ * element starting at or before the line, within the last block starting at or before it
+ * @param container - The element holding the rendered preview
+ * @param line - 1-based source line
+ * @returns The matching element, or null before the first block
+ */
+export function findSourceLineElement(container: HTMLElement, line: number): HTMLElement | null {
+  let block: HTMLElement | null = null
+  for (const el of container.querySelectorAll<HTMLElement>('[data-source-line]')) {
+    if (Number(el.dataset.sourceLine) > line) break
+    block = el
+  }
+  if (!block) return null
+
+  const offset = line - Number(block.dataset.sourceLine)
+  let match = block
+  // Descendants come after their ancestors, so the last candidate is the innermost
+  for (const el of block.querySelectorAll<HTMLElement>('[data-line-offset]')) {
+    if (Number(el.dataset.lineOffset) <= offset) match = el
+  }
+  return match
+}
+
+/**
+ * Marks the preview element matching a source line, clearing the previous one
+ * @param container - The element holding the rendered preview
+ * @param line - 1-based source line, or null to clear the highlight
+ */
+export function highlightSourceLine(container: HTMLElement, line: number | null): void {
+  const match = line === null ? null : findSourceLineElement(container, line)
+  for (const el of container.querySelectorAll(`.${ACTIVE_SOURCE_LINE_CLASS}`)) {
+    if (el !== match) el.classList.remove(ACTIVE_SOURCE_LINE_CLASS)
+  }
+  match?.classList.add(ACTIVE_SOURCE_LINE_CLASS)
+}
+
+/**
+ * Finds where some rendered text appears in the source, searching from a line to the
+ * end of its paragraph so double-clicking a word lands on that word
+ * @param markdown - The markdown source
+ * @param line - 1-based line the rendered element starts on
+ * @param text - Text selected in the preview, if any
+ * @returns 1-based line and column; the start of `line` if the text isn't found
+ */
+export function findSourcePosition(
+  markdown: string,
+  line: number,
+  text?: string
+): { lineNumber: number; column: number } {
+  const lines = markdown.split('\n')
+  const needle = text?.trim()
+
+  if (needle) {
+    for (let i = line - 1; i < lines.length; i++) {
+      if (i > line - 1 && !lines[i].trim()) break
+      const index = lines[i].indexOf(needle)
+      if (index !== -1) return { lineNumber: i + 1, column: index + 1 }
+    }
+  }
+  return { lineNumber: line, column: 1 }
+}
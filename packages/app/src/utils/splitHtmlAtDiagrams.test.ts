@@ -1,17 +1,17 @@
 import { describe, it, expect } from 'vitest'
-import { splitHtmlAtMermaid } from './splitHtmlAtMermaid'
+import { splitHtmlAtDiagrams } from './splitHtmlAtDiagrams'
 
-describe('splitHtmlAtMermaid', () => {
+describe('splitHtmlAtDiagrams', () => {
   it('returns single html segment when no mermaid blocks', () => {
     const html = '<h1>Hello</h1><p>World</p>'
-    const result = splitHtmlAtMermaid(html)
+    const result = splitHtmlAtDiagrams(html)
     expect(result).toEqual([{ type: 'html', content: html }])
   })
 
   it('extracts a mermaid code block', () => {
     const html =
       '<p>Before</p><pre><code class="hljs language-mermaid">graph TD;\n    A--&gt;B;</code></pre><p>After</p>'
-    const result = splitHtmlAtMermaid(html)
+    const result = splitHtmlAtDiagrams(html)
     expect(result).toEqual([
       { type: 'html', content: '<p>Before</p>' },
       { type: 'mermaid', code: 'graph TD;\n    A-->B;' },
@@ -22,7 +22,7 @@ describe('splitHtmlAtMermaid', () => {
   it('handles multiple mermaid blocks', () => {
     const html =
       '<p>A</p><pre><code class="hljs language-mermaid">graph LR; X--&gt;Y</code></pre><p>B</p><pre><code class="hljs language-mermaid">sequenceDiagram\n    A-&gt;&gt;B: Hello</code></pre><p>C</p>'
-    const result = splitHtmlAtMermaid(html)
+    const result = splitHtmlAtDiagrams(html)
     expect(result).toHaveLength(5)
     expect(result[0]).toEqual({ type: 'html', content: '<p>A</p>' })
     expect(result[1]).toEqual({ type: 'mermaid', code: 'graph LR; X-->Y' })
@@ -33,7 +33,7 @@ describe('splitHtmlAtMermaid', () => {
 
   it('handles mermaid block at the start', () => {
     const html = '<pre><code class="hljs language-mermaid">graph TD; A</code></pre><p>After</p>'
-    const result = splitHtmlAtMermaid(html)
+    const result = splitHtmlAtDiagrams(html)
     expect(result).toEqual([
       { type: 'mermaid', code: 'graph TD; A' },
       { type: 'html', content: '<p>After</p>' },
@@ -42,7 +42,7 @@ describe('splitHtmlAtMermaid', () => {
 
   it('handles mermaid block at the end', () => {
     const html = '<p>Before</p><pre><code class="hljs language-mermaid">graph TD; A</code></pre>'
-    const result = splitHtmlAtMermaid(html)
+    const result = splitHtmlAtDiagrams(html)
     expect(result).toEqual([
       { type: 'html', content: '<p>Before</p>' },
       { type: 'mermaid', code: 'graph TD; A' },
@@ -52,11 +52,26 @@ describe('splitHtmlAtMermaid', () => {
   it('decodes HTML entities in mermaid code', () => {
     const html =
       '<pre><code class="hljs language-mermaid">A &amp; B &lt;-- C &gt; D &quot;E&quot; &#39;F&#39;</code></pre>'
-    const result = splitHtmlAtMermaid(html)
+    const result = splitHtmlAtDiagrams(html)
     expect(result).toEqual([{ type: 'mermaid', code: 'A & B <-- C > D "E" \'F\'' }])
   })
 
+  it('extracts dot and graphviz blocks as Graphviz diagrams', () => {
+    const html =
+      '<pre><code class="hljs language-dot">digraph { a -&gt; b }</code></pre><p>Between</p><pre><code class="hljs language-graphviz">graph { a -- b }</code></pre>'
+    expect(splitHtmlAtDiagrams(html)).toEqual([
+      { type: 'graphviz', code: 'digraph { a -> b }' },
+      { type: 'html', content: '<p>Between</p>' },
+      { type: 'graphviz', code: 'graph { a -- b }' },
+    ])
+  })
+
+  it('leaves languages that only start with a diagram name alone', () => {
+    const html = '<pre><code class="hljs language-dotenv">A=1</code></pre>'
+    expect(splitHtmlAtDiagrams(html)).toEqual([{ type: 'html', content: html }])
+  })
+
   it('returns empty array for empty input', () => {
-    expect(splitHtmlAtMermaid('')).toEqual([])
+    expect(splitHtmlAtDiagrams('')).toEqual([])
   })
 })
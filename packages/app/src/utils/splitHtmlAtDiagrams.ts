@@ -0,0 +1,57 @@
+/**
+ * Represents a segment of parsed HTML content.
+ * Either a raw HTML string or diagram source code (Mermaid, or Graphviz DOT).
+ */
+export type HtmlSegment =
+  | { type: 'html'; content: string }
+  | { type: 'mermaid'; code: string }
+  | { type: 'graphviz'; code: string }
+
+/** Fence languages rendered as diagrams, by segment type */
+const DIAGRAM_LANGUAGES: Record<string, 'mermaid' | 'graphviz'> = {
+  mermaid: 'mermaid',
+  dot: 'graphviz',
+  graphviz: 'graphviz',
+}
+
+/**
+ * Splits an HTML string at `<pre><code class="...language-mermaid...">` blocks and their
+ * Graphviz (`language-dot`, `language-graphviz`) equivalents, extracting the diagram
+ * source code from each match.
+ * @param html - The full HTML string from markdown rendering
+ * @returns An array of segments alternating between HTML and diagram code
+ */
+export function splitHtmlAtDiagrams(html: string): HtmlSegment[] {
+  // Match <pre><code class="hljs language-mermaid">...code...</code></pre>
+  const pattern =
+    /<pre><code class="[^"]*\blanguage-(mermaid|dot|graphviz)(?=[\s"])[^"]*">([\s\S]*?)<\/code><\/pre>/g
+
+  const segments: HtmlSegment[] = []
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(html)) !== null) {
+    // Add the HTML before this match
+    if (match.index > lastIndex) {
+      segments.push({ type: 'html', content: html.slice(lastIndex, match.index) })
+    }
+
+    // Decode HTML entities in the diagram source
+    const code = match[2]
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+
+    segments.push({ type: DIAGRAM_LANGUAGES[match[1]], code })
+    lastIndex = match.index + match[0].length
+  }
+
+  // Add any remaining HTML after the last match
+  if (lastIndex < html.length) {
+    segments.push({ type: 'html', content: html.slice(lastIndex) })
+  }
+
+  return segments
+}
@@ -1,4 +1,5 @@
 import type { TransformationPipeline, PipelineStep } from '@/components/transformer/types'
+import { slugify } from '@/utils/slug'
 
 /**
  * Applies a single transformation step to the text.
@@ -401,18 +402,11 @@ function applyStep(text: string, step: PipelineStep): string {
     }
 
     case 'slugify': {
-      const slugifyText = (str: string) =>
-        str
-          .toLowerCase()
-          .replace(/[^\w\s-]/g, '') // remove non-word/non-space/non-dash
-          .replace(/[\s_-]+/g, '-') // collapse spaces/dashes to single dash
-          .replace(/^-+|-+$/g, '') // trim dashes
-
       if (config.lines) {
-        return text.split('\n').map(slugifyText).join('\n')
+        return text.split('\n').map(slugify).join('\n')
       }
 
-      return slugifyText(text)
+      return slugify(text)
     }
 
     case 'quote': {
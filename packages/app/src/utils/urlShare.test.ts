@@ -4,6 +4,7 @@ import {
   encodePathSegment,
   generateShareableUrl,
   parsePathMetadata,
+  extractHashFromShareLink,
 } from './urlShare'
 
 describe('extractSnippet', () => {
@@ -90,6 +91,11 @@ describe('generateShareableUrl', () => {
     expect(url).toContain('/my-party-title/')
   })
 
+  it('removes emoji shortcodes from title', () => {
+    const url = generateShareableUrl('# :tada: My Party Title', 'untitled.md', 'hash123')
+    expect(url).toContain('/my-party-title/')
+  })
+
   it('uses document name when no heading', () => {
     const content = 'Just some content without heading'
     const url = generateShareableUrl(content, 'my-doc.md', 'xyz789')
@@ -109,6 +115,19 @@ describe('generateShareableUrl', () => {
     expect(url).not.toContain('#')
     expect(url).toBe('https://poemd.dev/title/snippet')
   })
+
+  it('uses the front matter title and skips front matter in the snippet', () => {
+    const content = '---\ntitle: Launch Plan\n---\n# Draft\n\nKickoff on Monday'
+    const url = generateShareableUrl(content, 'untitled.md', 'hash')
+    expect(url).toBe('https://poemd.dev/launch-plan/kickoff-on-monday#hash')
+  })
+
+  it('uses a neutral path for encrypted hashes', () => {
+    const content = '# Salary Review\n\nConfidential numbers'
+    const url = generateShareableUrl(content, 'salaries.md', 'e1:abc')
+    expect(url).toBe('https://poemd.dev/encrypted-document/enter-the-passphrase-to-read-it#e1:abc')
+    expect(url).not.toContain('salary')
+  })
 })
 
 describe('parsePathMetadata', () => {
@@ -157,3 +176,20 @@ describe('parsePathMetadata', () => {
     })
   })
 })
+
+describe('extractHashFromShareLink', () => {
+  it('extracts the hash from a full share URL', () => {
+    expect(extractHashFromShareLink('https://poemd.dev/title/snippet#abc123')).toBe('abc123')
+  })
+
+  it('accepts a bare hash with or without the leading #', () => {
+    expect(extractHashFromShareLink('#abc123')).toBe('abc123')
+    expect(extractHashFromShareLink('  abc123  ')).toBe('abc123')
+  })
+
+  it('returns null for empty input or URLs without a hash', () => {
+    expect(extractHashFromShareLink('')).toBeNull()
+    expect(extractHashFromShareLink('https://poemd.dev/title/snippet')).toBeNull()
+    expect(extractHashFromShareLink('https://poemd.dev/#')).toBeNull()
+  })
+})
@@ -1,14 +1,25 @@
-import { getFirstHeading } from '@/utils/markdown'
-import { extractFirstEmoji } from '@/utils/emoji'
+import { getDocumentTitle } from '@/utils/markdown'
+import { extractFrontMatter } from '@/utils/frontMatter'
+import { removeFirstEmoji } from '@/utils/emoji'
+import { isEncryptedHash } from '@/utils/compression'
 
 /**
- * Extracts a snippet from content (first non-heading line, truncated)
+ * Path metadata used for encrypted links, so the title and snippet
+ * (and the link preview built from them) reveal nothing about the document
+ */
+export const ENCRYPTED_PATH_METADATA = {
+  title: 'Encrypted document',
+  snippet: 'Enter the passphrase to read it',
+}
+
+/**
+ * Extracts a snippet from content (first non-heading line after any front matter, truncated)
  * @param content - The markdown content
  * @param maxLength - Maximum length of snippet (default: 80)
  * @returns The extracted snippet
  */
 export function extractSnippet(content: string, maxLength = 80): string {
-  const lines = content.split('\n')
+  const lines = extractFrontMatter(content).body.split('\n')
 
   // Find first non-empty, non-heading line
   for (const line of lines) {
@@ -57,22 +68,25 @@ export function encodePathSegment(text: string): string {
 /**
  * Generates a shareable URL with metadata in path segments
  * Format: /:title/:snippet#<content-hash>
+ * Encrypted hashes get a neutral placeholder path instead of the real title and snippet
  * @param content - The document content
  * @param documentName - The document name
  * @param hash - The compressed content hash
  * @returns The full shareable URL
  */
 export function generateShareableUrl(content: string, documentName: string, hash: string): string {
-  // Extract title from first heading or use document name
-  let title = getFirstHeading(content)
+  if (isEncryptedHash(hash)) {
+    const { title, snippet } = ENCRYPTED_PATH_METADATA
+    return `${window.location.origin}/${encodePathSegment(title)}/${encodePathSegment(snippet)}#${hash}`
+  }
+
+  // Extract title from front matter or first heading, or use document name
+  let title = getDocumentTitle(content)
   if (!title) {
     title = documentName.replace(/\.md$/, '')
   } else {
     // Remove emoji from title for the URL
-    const emoji = extractFirstEmoji(title)
-    if (emoji) {
-      title = title.replace(emoji, '').trim()
-    }
+    title = removeFirstEmoji(title)
   }
 
   // Extract snippet from content
@@ -111,3 +125,24 @@ export function parsePathMetadata(pathname: string): { title: string; snippet: s
     return null
   }
 }
+
+/**
+ * Extracts the compressed document hash from a share link
+ * Accepts a full URL, a bare `#hash`, or the hash payload on its own
+ * @param link - The pasted link or hash
+ * @returns The hash payload without the leading `#`, or null if empty
+ */
+export function extractHashFromShareLink(link: string): string | null {
+  const trimmed = link.trim()
+  if (!trimmed) return null
+
+  const hashIndex = trimmed.indexOf('#')
+  if (hashIndex !== -1) {
+    return trimmed.slice(hashIndex + 1) || null
+  }
+
+  // A URL without a hash carries no document
+  if (/^https?:\/\//i.test(trimmed)) return null
+
+  return trimmed
+}